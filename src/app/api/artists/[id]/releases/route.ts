@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { apiError, withSession } from "@/lib/api-route";
+import type { DiscogsArtistRelease } from "@/lib/discogs";
+
+const MAX_PAGES = 10; // prolific artists can have thousands of appearances
+
+export const GET = withSession<{ id: string }>(
+  { errorMessage: "Failed to fetch artist releases" },
+  async ({ params, client }) => {
+    const artistId = parseInt(params.id, 10);
+
+    if (isNaN(artistId)) {
+      return apiError(400, "invalid_request", "Invalid artist ID");
+    }
+
+    const releases: DiscogsArtistRelease[] = [];
+    let pages = 1;
+
+    for await (const page of client.iterateArtistReleases(artistId, { maxPages: MAX_PAGES })) {
+      releases.push(...page.items);
+      pages = page.pages;
+    }
+
+    // Only the artist's own releases count towards their discography
+    return NextResponse.json({
+      releases: releases.filter((r) => r.role === "Main"),
+      truncated: pages > MAX_PAGES,
+    });
+  }
+);
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { apiError, withSession } from "@/lib/api-route";
+import { switchAccount } from "@/lib/session";
+
+/**
+ * Switch the active account to another one linked to this session.
+ * Body: { username }
+ */
+export const POST = withSession(
+  { errorMessage: "Failed to switch account", csrf: true },
+  async ({ request }) => {
+    const { username } = await request.json();
+
+    if (!username || typeof username !== "string") {
+      return apiError(400, "invalid_request", "Username is required");
+    }
+
+    if (!(await switchAccount(username))) {
+      return apiError(404, "not_found", "Account is not linked to this session");
+    }
+
+    return NextResponse.json({ success: true, username });
+  }
+);
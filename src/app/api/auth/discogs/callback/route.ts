@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
 import { getAccessToken, createDiscogsClient } from "@/lib/discogs";
+import { saveSession, takePendingOAuth } from "@/lib/session";
 
 export async function GET(request: NextRequest) {
   const consumerKey = process.env.DISCOGS_CONSUMER_KEY;
@@ -20,90 +20,51 @@ export async function GET(request: NextRequest) {
     return NextResponse.redirect(`${appUrl}/login?error=missing_params`);
   }
 
-  // Get the stored token secret
-  const cookieStore = await cookies();
-  const tokenSecret = cookieStore.get("discogs_oauth_token_secret")?.value;
+  // Get the request token issued to this browser
+  const pending = await takePendingOAuth();
 
-  if (!tokenSecret) {
+  if (!pending) {
     return NextResponse.redirect(`${appUrl}/login?error=expired`);
   }
 
+  // Reject callbacks for a request token we didn't issue to this browser
+  if (pending.token !== oauthToken) {
+    return NextResponse.redirect(`${appUrl}/login?error=invalid_state`);
+  }
+
   try {
     // Exchange for access token
     const accessTokens = await getAccessToken(
       consumerKey,
       consumerSecret,
       oauthToken,
-      tokenSecret,
+      pending.tokenSecret,
       oauthVerifier
     );
 
     // Get user identity
-    const client = createDiscogsClient(
+    const client = createDiscogsClient({
+      type: "oauth",
       consumerKey,
       consumerSecret,
-      accessTokens.oauth_token,
-      accessTokens.oauth_token_secret
-    );
+      accessToken: accessTokens.oauth_token,
+      accessTokenSecret: accessTokens.oauth_token_secret,
+    });
     const identity = await client.getIdentity();
 
     // Fetch full profile for avatar and collection count
     const profile = await client.getUser(identity.username);
 
-    // Store access tokens in secure cookies
-    cookieStore.set("discogs_access_token", accessTokens.oauth_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 60 * 60 * 24 * 30, // 30 days
-      path: "/",
-    });
-
-    cookieStore.set(
-      "discogs_access_token_secret",
-      accessTokens.oauth_token_secret,
+    // Store access tokens and profile data in the session
+    await saveSession(
       {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "lax",
-        maxAge: 60 * 60 * 24 * 30, // 30 days
-        path: "/",
-      }
+        type: "oauth",
+        accessToken: accessTokens.oauth_token,
+        accessTokenSecret: accessTokens.oauth_token_secret,
+      },
+      { ...profile, username: identity.username }
     );
 
-    cookieStore.set("discogs_username", identity.username, {
-      httpOnly: false, // Allow client-side access
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 60 * 60 * 24 * 30, // 30 days
-      path: "/",
-    });
-
-    // Store profile data for UX (avatar, collection count)
-    const avatarUrl = profile.avatar_url || profile.avatar;
-    if (avatarUrl) {
-      cookieStore.set("discogs_avatar", avatarUrl, {
-        httpOnly: false,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "lax",
-        maxAge: 60 * 60 * 24 * 30,
-        path: "/",
-      });
-    }
-
-    if (profile.num_collection !== undefined) {
-      cookieStore.set("discogs_collection_count", String(profile.num_collection), {
-        httpOnly: false,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "lax",
-        maxAge: 60 * 60 * 24 * 30,
-        path: "/",
-      });
-    }
-
-    // Clean up temporary cookie
-    cookieStore.delete("discogs_oauth_token_secret");
-
     // Redirect to dashboard
     return NextResponse.redirect(`${appUrl}/dashboard`);
   } catch (error) {
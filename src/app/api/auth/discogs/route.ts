@@ -1,8 +1,8 @@
-import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
 import { getRequestToken, getAuthorizeUrl } from "@/lib/discogs";
+import { getSession, savePendingOAuth } from "@/lib/session";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   const consumerKey = process.env.DISCOGS_CONSUMER_KEY;
   const consumerSecret = process.env.DISCOGS_CONSUMER_SECRET;
   const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
@@ -14,12 +14,10 @@ export async function GET() {
     );
   }
 
-  // Check if user is already authenticated - skip OAuth flow
-  const cookieStore = await cookies();
-  const existingToken = cookieStore.get("discogs_access_token")?.value;
-  const existingUsername = cookieStore.get("discogs_username")?.value;
-
-  if (existingToken && existingUsername) {
+  // Check if user is already authenticated - skip OAuth flow, unless
+  // they're linking another account
+  const linkingAccount = request.nextUrl.searchParams.has("add");
+  if (!linkingAccount && (await getSession())) {
     // Already authenticated, redirect to dashboard
     return NextResponse.redirect(`${appUrl}/dashboard`);
   }
@@ -33,15 +31,8 @@ export async function GET() {
       callbackUrl
     );
 
-    // Store the token secret in a cookie for the callback
-    const cookieStore = await cookies();
-    cookieStore.set("discogs_oauth_token_secret", tokens.oauth_token_secret, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 60 * 10, // 10 minutes
-      path: "/",
-    });
+    // Store the request token and its secret for the callback
+    await savePendingOAuth(tokens.oauth_token, tokens.oauth_token_secret);
 
     // Redirect to Discogs authorization page
     const authorizeUrl = getAuthorizeUrl(tokens.oauth_token);
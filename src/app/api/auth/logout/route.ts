@@ -1,26 +1,30 @@
-import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
+import { CSRF_FIELD } from "@/lib/csrf";
+import { clearSession, getSession, verifyCsrf } from "@/lib/session";
 
-export async function POST() {
+/**
+ * Sign out. Posted from the confirmation form at /logout, so a link or
+ * image on another site can't sign the user out.
+ */
+export async function POST(request: NextRequest) {
   const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
-  const cookieStore = await cookies();
+  const session = await getSession();
 
-  // Clear all auth cookies
-  cookieStore.delete("discogs_access_token");
-  cookieStore.delete("discogs_access_token_secret");
-  cookieStore.delete("discogs_username");
-
-  return NextResponse.redirect(`${appUrl}/`);
-}
+  if (session) {
+    const formData = await request.formData();
+    const csrfToken = String(formData.get(CSRF_FIELD) || "");
 
-export async function GET() {
-  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
-  const cookieStore = await cookies();
+    if (!verifyCsrf(request, session, csrfToken)) {
+      return NextResponse.json(
+        { error: "Invalid CSRF token" },
+        { status: 403 }
+      );
+    }
+  }
 
   // Clear all auth cookies
-  cookieStore.delete("discogs_access_token");
-  cookieStore.delete("discogs_access_token_secret");
-  cookieStore.delete("discogs_username");
+  await clearSession();
 
-  return NextResponse.redirect(`${appUrl}/`);
+  // 303 so the browser follows the form POST with a GET
+  return NextResponse.redirect(`${appUrl}/`, 303);
 }
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createDiscogsClient, DiscogsApiError, type DiscogsUser } from "@/lib/discogs";
+import { isSameOrigin, saveSession } from "@/lib/session";
+
+const MAX_TOKEN_LENGTH = 100;
+
+/**
+ * Login error code for a failed identity check: only a 401 means the
+ * token itself is wrong
+ */
+function identityErrorCode(error: unknown): "invalid_token" | "rate_limited" | "upstream_error" {
+  if (error instanceof DiscogsApiError) {
+    if (error.status === 401) return "invalid_token";
+    if (error.status === 429) return "rate_limited";
+  }
+  return "upstream_error";
+}
+
+/**
+ * Sign in with a Discogs personal access token (from
+ * https://www.discogs.com/settings/developers) instead of OAuth
+ */
+export async function POST(request: NextRequest) {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+
+  // Another site could otherwise post its own token and sign the visitor
+  // in to that account (login CSRF)
+  if (!isSameOrigin(request)) {
+    return NextResponse.redirect(`${appUrl}/login?error=invalid_origin`, 303);
+  }
+
+  const formData = await request.formData();
+  const token = String(formData.get("token") || "").trim();
+
+  // 303 so the browser follows the form POST with a GET
+  if (!token || token.length > MAX_TOKEN_LENGTH || /\s/.test(token)) {
+    return NextResponse.redirect(`${appUrl}/login?error=invalid_token`, 303);
+  }
+
+  // Validate the token by asking Discogs who it belongs to
+  let profile: DiscogsUser;
+  try {
+    const client = createDiscogsClient({ type: "token", token });
+    const identity = await client.getIdentity();
+
+    // Fetch full profile for avatar and collection count
+    profile = { ...(await client.getUser(identity.username)), username: identity.username };
+  } catch (error) {
+    console.error("Token login error:", error);
+    return NextResponse.redirect(`${appUrl}/login?error=${identityErrorCode(error)}`, 303);
+  }
+
+  try {
+    await saveSession({ type: "token", token }, profile);
+  } catch (error) {
+    // e.g. SESSION_SECRET missing or too short
+    console.error("Failed to save session:", error);
+    return NextResponse.redirect(`${appUrl}/login?error=config`, 303);
+  }
+
+  return NextResponse.redirect(`${appUrl}/dashboard`, 303);
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { apiError, withClient } from "@/lib/api-route";
+
+// Private fields are only listed for the authenticated owner
+export const GET = withClient(
+  { errorMessage: "Failed to fetch collection fields" },
+  async ({ request, client }) => {
+    const username = request.nextUrl.searchParams.get("username");
+
+    if (!username) {
+      return apiError(400, "invalid_request", "Username is required");
+    }
+
+    const fields = await client.getCollectionFields(username);
+
+    return NextResponse.json({ fields });
+  }
+);
@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { apiError, withSession } from "@/lib/api-route";
+import { requestReconcile } from "@/lib/collection-sync";
+import { ALL_FOLDERS_ID } from "@/lib/discogs";
+
+const isId = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value > 0;
+
+/**
+ * Edit a collection instance: rating, folder and/or one custom field.
+ * Body: { releaseId, folderId, rating?, targetFolderId?, field?: { id, value } }
+ */
+export const PATCH = withSession<{ id: string }>(
+  { errorMessage: "Failed to update collection item", csrf: true },
+  async ({ request, params, session, client }) => {
+    const instanceId = parseInt(params.id, 10);
+
+    if (isNaN(instanceId)) {
+      return apiError(400, "invalid_request", "Invalid instance ID");
+    }
+
+    const { releaseId, folderId, rating, targetFolderId, field } = await request.json();
+
+    if (!isId(releaseId) || !isId(folderId)) {
+      return apiError(400, "invalid_request", "Invalid release or folder ID");
+    }
+
+    if (rating !== undefined && !(Number.isInteger(rating) && rating >= 0 && rating <= 5)) {
+      return apiError(400, "invalid_request", "Rating must be a whole number from 0 to 5");
+    }
+
+    if (
+      targetFolderId !== undefined &&
+      (!Number.isInteger(targetFolderId) || targetFolderId === ALL_FOLDERS_ID)
+    ) {
+      return apiError(400, "invalid_request", "Invalid target folder ID");
+    }
+
+    if (field !== undefined && (!isId(field.id) || typeof field.value !== "string")) {
+      return apiError(400, "invalid_request", "Invalid field");
+    }
+
+    const { username } = session;
+
+    // Set the field first: it's addressed by the current folder, which a
+    // move would change
+    if (field) {
+      await client.setInstanceField(username, folderId, releaseId, instanceId, field.id, field.value);
+    }
+
+    if (rating !== undefined || targetFolderId !== undefined) {
+      await client.editInstance(username, folderId, releaseId, instanceId, {
+        rating,
+        folder_id: targetFolderId,
+      });
+    }
+
+    // Edits don't change the collection's order or count, so only a full
+    // sync picks them up
+    await requestReconcile(username);
+
+    return NextResponse.json({
+      success: true,
+      instanceId,
+      folderId: targetFolderId ?? folderId,
+      rating,
+      field,
+    });
+  }
+);
+
+/**
+ * Remove a collection instance. Body: { releaseId, folderId }
+ */
+export const DELETE = withSession<{ id: string }>(
+  { errorMessage: "Failed to remove from collection", csrf: true },
+  async ({ request, params, session, client }) => {
+    const instanceId = parseInt(params.id, 10);
+
+    if (isNaN(instanceId)) {
+      return apiError(400, "invalid_request", "Invalid instance ID");
+    }
+
+    const { releaseId, folderId } = await request.json();
+
+    if (!isId(releaseId) || !isId(folderId)) {
+      return apiError(400, "invalid_request", "Invalid release or folder ID");
+    }
+
+    await client.removeFromCollection(session.username, folderId, releaseId, instanceId);
+
+    // An add elsewhere can leave the count unchanged, which would hide the
+    // removal from an incremental sync
+    await requestReconcile(session.username);
+
+    return NextResponse.json({
+      success: true,
+      instanceId,
+    });
+  }
+);
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { apiError, withSession } from "@/lib/api-route";
+import { requestReconcile } from "@/lib/collection-sync";
+import { ALL_FOLDERS_ID, UNCATEGORIZED_FOLDER_ID } from "@/lib/discogs";
+
+export const POST = withSession(
+  { errorMessage: "Failed to add to collection", csrf: true },
+  async ({ request, session, client }) => {
+    const { releaseId, folderId = UNCATEGORIZED_FOLDER_ID } = await request.json();
+
+    if (!releaseId || typeof releaseId !== "number") {
+      return apiError(400, "invalid_request", "Invalid release ID");
+    }
+
+    // Releases can't be added to the virtual "All" folder
+    if (typeof folderId !== "number" || folderId === ALL_FOLDERS_ID) {
+      return apiError(400, "invalid_request", "Invalid folder ID");
+    }
+
+    const result = await client.addToCollection(session.username, releaseId, folderId);
+
+    // A removal elsewhere could cancel out the count, so make the next
+    // sync a full one, as after edits and removals
+    await requestReconcile(session.username);
+
+    return NextResponse.json({
+      success: true,
+      releaseId,
+      folderId,
+      instanceId: result.instance_id,
+    });
+  }
+);
@@ -1,75 +1,35 @@
-import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { createDiscogsClient, createSimpleDiscogsClient } from "@/lib/discogs";
-
-export async function GET(request: NextRequest) {
-  const consumerKey = process.env.DISCOGS_CONSUMER_KEY;
-  const consumerSecret = process.env.DISCOGS_CONSUMER_SECRET;
-
-  if (!consumerKey || !consumerSecret) {
-    return NextResponse.json(
-      { error: "Discogs credentials not configured" },
-      { status: 500 }
-    );
-  }
-
-  const searchParams = request.nextUrl.searchParams;
-  const username = searchParams.get("username");
-  const page = parseInt(searchParams.get("page") || "1", 10);
-  const perPage = parseInt(searchParams.get("per_page") || "100", 10);
-
-  if (!username) {
-    return NextResponse.json(
-      { error: "Username is required" },
-      { status: 400 }
-    );
-  }
-
-  try {
-    // Check if we have auth tokens (for private collections)
-    const cookieStore = await cookies();
-    const accessToken = cookieStore.get("discogs_access_token")?.value;
-    const accessTokenSecret = cookieStore.get("discogs_access_token_secret")?.value;
-
-    let releases;
-    let total;
-    let pages;
-
-    if (accessToken && accessTokenSecret) {
-      // Use authenticated client
-      const client = createDiscogsClient(
-        consumerKey,
-        consumerSecret,
-        accessToken,
-        accessTokenSecret
-      );
-
-      const response = await client.getCollection(username, 0, page, perPage);
-      releases = response.releases;
-      total = response.pagination.items;
-      pages = response.pagination.pages;
-    } else {
-      // Use simple client for public collections
-      const client = createSimpleDiscogsClient(consumerKey, consumerSecret);
+import { NextResponse } from "next/server";
+import { apiError, withClient } from "@/lib/api-route";
+import { ALL_FOLDERS_ID } from "@/lib/discogs";
+
+// Private collections are only visible to their signed-in owner;
+// everyone else gets the public view through the app's key/secret
+export const GET = withClient(
+  { errorMessage: "Failed to fetch collection" },
+  async ({ request, client }) => {
+    const searchParams = request.nextUrl.searchParams;
+    const username = searchParams.get("username");
+    const page = parseInt(searchParams.get("page") || "1", 10);
+    const perPage = parseInt(searchParams.get("per_page") || "100", 10);
+    const folderId = parseInt(searchParams.get("folder") || String(ALL_FOLDERS_ID), 10);
+
+    if (!username) {
+      return apiError(400, "invalid_request", "Username is required");
+    }
 
-      const response = await client.getPublicCollection(username, 0, page, perPage);
-      releases = response.releases;
-      total = response.pagination.items;
-      pages = response.pagination.pages;
+    if (isNaN(folderId)) {
+      return apiError(400, "invalid_request", "Invalid folder ID");
     }
 
+    const { releases, pagination } = await client.getCollection(username, folderId, page, perPage);
+
     return NextResponse.json({
       releases,
-      total,
+      total: pagination.items,
       page,
-      pages,
-      hasMore: page < pages,
+      pages: pagination.pages,
+      folder: folderId,
+      hasMore: page < pagination.pages,
     });
-  } catch (error) {
-    console.error("Collection fetch error:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch collection" },
-      { status: 500 }
-    );
   }
-}
+);
@@ -0,0 +1,81 @@
+import { apiError, describeFailure, withClient } from "@/lib/api-route";
+import { syncCollection } from "@/lib/collection-sync";
+import { NDJSON_CONTENT_TYPE, type CollectionStreamEvent } from "@/lib/collection-stream";
+import { ALL_FOLDERS_ID } from "@/lib/discogs";
+
+const ERROR_MESSAGE = "Failed to stream collection";
+
+/**
+ * Stream a whole collection folder as NDJSON (see lib/collection-stream).
+ * Pages are fetched from Discogs as the client reads, so a client that
+ * disconnects stops the walk.
+ */
+export const GET = withClient(
+  { errorMessage: ERROR_MESSAGE },
+  async ({ request, session, client }) => {
+    const searchParams = request.nextUrl.searchParams;
+    const username = searchParams.get("username");
+    const folderId = parseInt(searchParams.get("folder") || String(ALL_FOLDERS_ID), 10);
+
+    if (!username) {
+      return apiError(400, "invalid_request", "Username is required");
+    }
+
+    if (isNaN(folderId)) {
+      return apiError(400, "invalid_request", "Invalid folder ID");
+    }
+
+    // The owner's full collection goes through the store, so only what
+    // changed is fetched. Other users' collections aren't stored: what a
+    // visitor sees of them can differ from what the owner sees.
+    const isOwner = session?.username.toLowerCase() === username.toLowerCase();
+    const pages =
+      isOwner && folderId === ALL_FOLDERS_ID
+        ? syncCollection(client, session.username)
+        : client.iterateCollection(username, folderId);
+
+    // Fetch the first page before answering, so a private or unknown
+    // collection fails with its status instead of inside the stream
+    let next: ReturnType<typeof pages.next> | null = Promise.resolve(await pages.next());
+    let loaded = 0;
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const send = (event: CollectionStreamEvent) =>
+          controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+
+        try {
+          const result = await (next ?? pages.next());
+          next = null;
+
+          if (result.done) {
+            send({ type: "done", loaded });
+            controller.close();
+            return;
+          }
+
+          const { items, page, pages: pageCount, total } = result.value;
+          loaded += items.length;
+          send({ type: "page", releases: items, page, pages: pageCount, loaded, total });
+        } catch (error) {
+          const { status, code, error: message } = describeFailure(error, ERROR_MESSAGE);
+          send({ type: "error", status, code, error: message });
+          controller.close();
+        }
+      },
+      async cancel() {
+        await pages.return(undefined);
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": NDJSON_CONTENT_TYPE,
+        "Cache-Control": "no-store",
+        // Keep reverse proxies from buffering the whole response
+        "X-Accel-Buffering": "no",
+      },
+    });
+  }
+);
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { withSession } from "@/lib/api-route";
+
+export const GET = withSession(
+  { errorMessage: "Failed to fetch collection value" },
+  async ({ session, client }) => {
+    const value = await client.getCollectionValue(session.username);
+
+    return NextResponse.json(value);
+  }
+);
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { apiError, withSession } from "@/lib/api-route";
+import type { DiscogsLabelRelease } from "@/lib/discogs";
+
+const MAX_PAGES = 10; // big labels and distributors list thousands of releases
+
+export const GET = withSession<{ id: string }>(
+  { errorMessage: "Failed to fetch label" },
+  async ({ params, client }) => {
+    const labelId = parseInt(params.id, 10);
+
+    if (isNaN(labelId)) {
+      return apiError(400, "invalid_request", "Invalid label ID");
+    }
+
+    const label = await client.getLabel(labelId);
+
+    const releases: DiscogsLabelRelease[] = [];
+    let pages = 1;
+
+    for await (const page of client.iterateLabelReleases(labelId, { maxPages: MAX_PAGES })) {
+      releases.push(...page.items);
+      pages = page.pages;
+    }
+
+    return NextResponse.json({
+      label: {
+        id: label.id,
+        name: label.name,
+        profile: label.profile,
+        parent_label: label.parent_label,
+        sublabels: label.sublabels || [],
+      },
+      releases,
+      truncated: pages > MAX_PAGES,
+    });
+  }
+);
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { apiError, withClient } from "@/lib/api-route";
+
+const MAX_WANTLIST_PAGES = 10;
+
+// Anyone can load a public list; signed-in users also get their wantlist
+// matched against it
+export const GET = withClient<{ id: string }>(
+  { errorMessage: "Failed to fetch list" },
+  async ({ params, session, client }) => {
+    const listId = parseInt(params.id, 10);
+
+    if (isNaN(listId)) {
+      return apiError(400, "invalid_request", "Invalid list ID");
+    }
+
+    const list = await client.getList(listId);
+
+    if (!session) {
+      return NextResponse.json({ list, wanted: null });
+    }
+
+    const wantedReleases = new Set<number>();
+    const wantedMasters = new Set<number>();
+
+    for await (const page of client.iterateWantlist(session.username, { maxPages: MAX_WANTLIST_PAGES })) {
+      page.items.forEach((want) => {
+        wantedReleases.add(want.basic_information.id);
+        if (want.basic_information.master_id) {
+          wantedMasters.add(want.basic_information.master_id);
+        }
+      });
+    }
+
+    return NextResponse.json({
+      list,
+      wanted: {
+        releases: Array.from(wantedReleases),
+        masters: Array.from(wantedMasters),
+      },
+    });
+  }
+);
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { apiError, withClient } from "@/lib/api-route";
+
+// Private lists are only returned to their authenticated owner
+export const GET = withClient(
+  { errorMessage: "Failed to fetch lists" },
+  async ({ request, client }) => {
+    const username = request.nextUrl.searchParams.get("username");
+
+    if (!username) {
+      return apiError(400, "invalid_request", "Username is required");
+    }
+
+    const response = await client.getUserLists(username, 1, 100);
+
+    return NextResponse.json({
+      lists: response.lists,
+      total: response.pagination.items,
+    });
+  }
+);
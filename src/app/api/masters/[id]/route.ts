@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { apiError, withSession } from "@/lib/api-route";
+
+export const GET = withSession<{ id: string }>(
+  { errorMessage: "Failed to fetch master" },
+  async ({ params, client }) => {
+    const masterId = parseInt(params.id, 10);
+
+    if (isNaN(masterId)) {
+      return apiError(400, "invalid_request", "Invalid master ID");
+    }
+
+    const master = await client.getMaster(masterId);
+
+    // The main release is what gets added when wanting a master
+    return NextResponse.json({
+      id: master.id,
+      title: master.title,
+      year: master.year || null,
+      main_release: master.main_release,
+    });
+  }
+);
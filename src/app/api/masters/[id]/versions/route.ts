@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server";
+import { apiError, withClient } from "@/lib/api-route";
+import { collectItems } from "@/lib/paginate";
+import {
+  findEarliest,
+  toPressingVersion,
+  type MasterPressingSummary,
+  type PressingVersion,
+} from "@/lib/pressings";
+
+const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+const MAX_CACHED_MASTERS = 500;
+// Versions come oldest first, so the first pressing is on the first pages
+const MAX_VERSION_PAGES = 5;
+const MAX_OWNED = 50; // owned versions looked up per request
+
+interface CachedVersions {
+  earliest: PressingVersion | null;
+  versions: Map<number, PressingVersion>; // the fetched window plus looked-up owned ones
+  timestamp: number;
+}
+
+// Versions rarely change, so keep them per master for a day
+const versionCache = new Map<number, CachedVersions>();
+
+function getCached(masterId: number): CachedVersions | null {
+  const cached = versionCache.get(masterId);
+  if (!cached) return null;
+  if (Date.now() - cached.timestamp < CACHE_TTL) return cached;
+
+  versionCache.delete(masterId);
+  return null;
+}
+
+function setCached(masterId: number, entry: CachedVersions) {
+  // Maps iterate in insertion order, so the first key is the oldest entry
+  while (versionCache.size >= MAX_CACHED_MASTERS) {
+    versionCache.delete(versionCache.keys().next().value!);
+  }
+  versionCache.set(masterId, entry);
+}
+
+function parseOwned(value: string | null): number[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((id) => parseInt(id, 10))
+    .filter((id) => id > 0)
+    .slice(0, MAX_OWNED);
+}
+
+// Versions are public, so guests exploring a collection can see them too.
+// `owned` lists the caller's release ids of this master: they're looked up
+// one by one when outside the fetched window, as big masters have
+// thousands of versions.
+export const GET = withClient<{ id: string }>(
+  { errorMessage: "Failed to fetch master versions" },
+  async ({ request, params, client }) => {
+    const masterId = parseInt(params.id, 10);
+
+    if (isNaN(masterId)) {
+      return apiError(400, "invalid_request", "Invalid master ID");
+    }
+
+    let cached = getCached(masterId);
+    if (!cached) {
+      const versions = (
+        await collectItems(client.iterateMasterVersions(masterId, { maxPages: MAX_VERSION_PAGES }))
+      ).map(toPressingVersion);
+
+      cached = {
+        earliest: findEarliest(versions),
+        versions: new Map(versions.map((v) => [v.id, v])),
+        timestamp: Date.now(),
+      };
+      setCached(masterId, cached);
+    }
+
+    const owned: PressingVersion[] = [];
+    for (const releaseId of parseOwned(request.nextUrl.searchParams.get("owned"))) {
+      let version = cached.versions.get(releaseId);
+      if (!version) {
+        try {
+          const release = await client.getRelease(releaseId);
+          version = {
+            id: release.id,
+            year: release.year && release.year > 1900 ? release.year : null,
+            country: release.country || null,
+          };
+          cached.versions.set(releaseId, version);
+        } catch (error) {
+          // Classification falls back to the year in the collection
+          console.error(`Failed to look up release ${releaseId}:`, error);
+          version = { id: releaseId, year: null, country: null };
+        }
+      }
+      owned.push(version);
+    }
+
+    return NextResponse.json<MasterPressingSummary>({
+      masterId,
+      earliest: cached.earliest,
+      owned,
+    });
+  }
+);
@@ -0,0 +1,6 @@
+import { NextResponse } from "next/server";
+import { discogsScheduler } from "@/lib/discogs-scheduler";
+
+export async function GET() {
+  return NextResponse.json(discogsScheduler.getState());
+}
@@ -1,6 +1,5 @@
-import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { createDiscogsClient } from "@/lib/discogs";
+import { NextResponse } from "next/server";
+import { withSession } from "@/lib/api-route";
 
 interface StyleData {
   name: string;
@@ -20,30 +19,11 @@ interface SimilarArtist {
   sourceArtist: string;
 }
 
-export async function POST(request: NextRequest) {
-  const consumerKey = process.env.DISCOGS_CONSUMER_KEY;
-  const consumerSecret = process.env.DISCOGS_CONSUMER_SECRET;
-  const lastfmApiKey = process.env.LASTFM_API_KEY;
+export const POST = withSession(
+  { errorMessage: "Failed to generate recommendations" },
+  async ({ request, client }) => {
+    const lastfmApiKey = process.env.LASTFM_API_KEY;
 
-  if (!consumerKey || !consumerSecret) {
-    return NextResponse.json(
-      { error: "Discogs credentials not configured" },
-      { status: 500 }
-    );
-  }
-
-  const cookieStore = await cookies();
-  const accessToken = cookieStore.get("discogs_access_token")?.value;
-  const accessTokenSecret = cookieStore.get("discogs_access_token_secret")?.value;
-
-  if (!accessToken || !accessTokenSecret) {
-    return NextResponse.json(
-      { error: "Not authenticated" },
-      { status: 401 }
-    );
-  }
-
-  try {
     const body: RecommendationRequest = await request.json();
     const { styles, ownedMasterIds, ownedArtistNames } = body;
 
@@ -85,13 +65,6 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const client = createDiscogsClient(
-      consumerKey,
-      consumerSecret,
-      accessToken,
-      accessTokenSecret
-    );
-
     const recommendations: {
       style: string;
       reason: string;
@@ -147,19 +120,8 @@ export async function POST(request: NextRequest) {
             "master",
             { format: "Vinyl", sort: "want", sort_order: "desc" }
           );
-          const results = (searchResult as { results?: Array<{
-            id: number;
-            master_id?: number;
-            title: string;
-            year?: string;
-            thumb?: string;
-            genre?: string[];
-            style?: string[];
-            community?: { have: number; want: number };
-          }> }).results || [];
-
           // Filter and format results
-          const filtered = results
+          const filtered = searchResult.results
             .filter((r) => {
               const masterId = r.master_id || r.id;
               return masterId && !ownedSet.has(masterId);
@@ -182,9 +144,6 @@ export async function POST(request: NextRequest) {
             });
 
           releases.push(...filtered);
-
-          // Small delay to avoid rate limiting
-          await new Promise((resolve) => setTimeout(resolve, 100));
         } catch (err) {
           console.error(`Search failed for artist ${artist.name}:`, err);
         }
@@ -210,11 +169,5 @@ export async function POST(request: NextRequest) {
       analyzedStyles: topStyles.map((s) => s.name),
       hasLastfm: similarArtists.length > 0,
     });
-  } catch (error) {
-    console.error("Recommendations error:", error);
-    return NextResponse.json(
-      { error: "Failed to generate recommendations" },
-      { status: 500 }
-    );
   }
-}
+);
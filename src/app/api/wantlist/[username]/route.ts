@@ -1,75 +1,38 @@
-import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { createDiscogsClient } from "@/lib/discogs";
-
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ username: string }> }
-) {
-  const { username } = await params;
-
-  const consumerKey = process.env.DISCOGS_CONSUMER_KEY;
-  const consumerSecret = process.env.DISCOGS_CONSUMER_SECRET;
-
-  if (!consumerKey || !consumerSecret) {
-    return NextResponse.json(
-      { error: "Discogs credentials not configured" },
-      { status: 500 }
-    );
-  }
-
-  const cookieStore = await cookies();
-  const accessToken = cookieStore.get("discogs_access_token")?.value;
-  const accessTokenSecret = cookieStore.get("discogs_access_token_secret")?.value;
-
-  if (!accessToken || !accessTokenSecret) {
-    return NextResponse.json(
-      { error: "Not authenticated" },
-      { status: 401 }
-    );
-  }
-
-  try {
-    const client = createDiscogsClient(
-      consumerKey,
-      consumerSecret,
-      accessToken,
-      accessTokenSecret
-    );
-
-    // Fetch wantlist (first 100 items)
-    const wantlistResponse = await client.getWantlist(username, 1, 100);
+import { NextResponse } from "next/server";
+import { apiError, withSession } from "@/lib/api-route";
+import { MAX_PER_PAGE } from "@/lib/discogs";
+import type { WantlistItem } from "@/lib/wantlist";
+
+/**
+ * One page of a user's wantlist. Clients walk every page with
+ * fetchWantlist (see lib/wantlist).
+ */
+export const GET = withSession<{ username: string }>(
+  { errorMessage: "Failed to fetch wantlist" },
+  async ({ request, params, client }) => {
+    const { username } = params;
+    const page = parseInt(request.nextUrl.searchParams.get("page") || "1", 10);
+
+    if (isNaN(page) || page < 1) {
+      return apiError(400, "invalid_request", "Invalid page");
+    }
+
+    const { wants, pagination } = await client.getWantlist(username, page, MAX_PER_PAGE);
 
     // Map wants to a format similar to collection releases
-    const wants = wantlistResponse.wants.map((want: {
-      id: number;
-      rating: number;
-      basic_information: {
-        id: number;
-        master_id: number;
-        title: string;
-        year: number;
-        thumb: string;
-        artists: Array<{ name: string; id: number }>;
-        genres: string[];
-        styles: string[];
-      };
-    }) => ({
+    const items: WantlistItem[] = wants.map((want) => ({
       id: want.id,
       rating: want.rating,
+      notes: want.notes || null,
       basic_information: want.basic_information,
     }));
 
     return NextResponse.json({
-      wants,
-      total: wantlistResponse.pagination.items,
+      wants: items,
+      total: pagination.items,
+      page,
+      pages: pagination.pages,
       username,
     });
-  } catch (error) {
-    console.error("Wantlist fetch error:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch wantlist. It may be private." },
-      { status: 500 }
-    );
   }
-}
+);
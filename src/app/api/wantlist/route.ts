@@ -1,114 +1,101 @@
-import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { createDiscogsClient } from "@/lib/discogs";
-
-export async function POST(request: NextRequest) {
-  const consumerKey = process.env.DISCOGS_CONSUMER_KEY;
-  const consumerSecret = process.env.DISCOGS_CONSUMER_SECRET;
-
-  if (!consumerKey || !consumerSecret) {
-    return NextResponse.json(
-      { error: "Discogs credentials not configured" },
-      { status: 500 }
-    );
+import { NextResponse } from "next/server";
+import { apiError, withSession } from "@/lib/api-route";
+import type { DiscogsWantDetails } from "@/lib/discogs";
+
+const MAX_NOTES_LENGTH = 1000;
+
+/**
+ * Validate optional notes/rating from a request body.
+ * Returns an error message, or the details to send to Discogs.
+ */
+function parseWantDetails(body: {
+  notes?: unknown;
+  rating?: unknown;
+}): { error: string } | { details: DiscogsWantDetails } {
+  const { notes, rating } = body;
+
+  if (notes !== undefined && (typeof notes !== "string" || notes.length > MAX_NOTES_LENGTH)) {
+    return { error: `Notes must be a string of at most ${MAX_NOTES_LENGTH} characters` };
   }
 
-  const cookieStore = await cookies();
-  const accessToken = cookieStore.get("discogs_access_token")?.value;
-  const accessTokenSecret = cookieStore.get("discogs_access_token_secret")?.value;
-  const username = cookieStore.get("discogs_username")?.value;
-
-  if (!accessToken || !accessTokenSecret || !username) {
-    return NextResponse.json(
-      { error: "Not authenticated" },
-      { status: 401 }
-    );
+  if (
+    rating !== undefined &&
+    !(typeof rating === "number" && Number.isInteger(rating) && rating >= 0 && rating <= 5)
+  ) {
+    return { error: "Rating must be a whole number from 0 to 5" };
   }
 
-  try {
-    const { releaseId } = await request.json();
+  return { details: { notes, rating } as DiscogsWantDetails };
+}
+
+export const POST = withSession(
+  { errorMessage: "Failed to add to wantlist", csrf: true },
+  async ({ request, session, client }) => {
+    const body = await request.json();
+    const { releaseId } = body;
 
     if (!releaseId || typeof releaseId !== "number") {
-      return NextResponse.json(
-        { error: "Invalid release ID" },
-        { status: 400 }
-      );
+      return apiError(400, "invalid_request", "Invalid release ID");
     }
 
-    const client = createDiscogsClient(
-      consumerKey,
-      consumerSecret,
-      accessToken,
-      accessTokenSecret
-    );
+    const parsed = parseWantDetails(body);
+    if ("error" in parsed) {
+      return apiError(400, "invalid_request", parsed.error);
+    }
 
-    const result = await client.addToWantlist(username, releaseId);
+    const result = await client.addToWantlist(session.username, releaseId, parsed.details);
 
     return NextResponse.json({
       success: true,
       releaseId,
       result,
     });
-  } catch (error) {
-    console.error("Add to wantlist error:", error);
-    return NextResponse.json(
-      { error: "Failed to add to wantlist" },
-      { status: 500 }
-    );
   }
-}
+);
 
-export async function DELETE(request: NextRequest) {
-  const consumerKey = process.env.DISCOGS_CONSUMER_KEY;
-  const consumerSecret = process.env.DISCOGS_CONSUMER_SECRET;
+export const PATCH = withSession(
+  { errorMessage: "Failed to update wantlist item", csrf: true },
+  async ({ request, session, client }) => {
+    const body = await request.json();
+    const { releaseId } = body;
 
-  if (!consumerKey || !consumerSecret) {
-    return NextResponse.json(
-      { error: "Discogs credentials not configured" },
-      { status: 500 }
-    );
-  }
+    if (!releaseId || typeof releaseId !== "number") {
+      return apiError(400, "invalid_request", "Invalid release ID");
+    }
+
+    const parsed = parseWantDetails(body);
+    if ("error" in parsed) {
+      return apiError(400, "invalid_request", parsed.error);
+    }
+
+    if (parsed.details.notes === undefined && parsed.details.rating === undefined) {
+      return apiError(400, "invalid_request", "Nothing to update");
+    }
 
-  const cookieStore = await cookies();
-  const accessToken = cookieStore.get("discogs_access_token")?.value;
-  const accessTokenSecret = cookieStore.get("discogs_access_token_secret")?.value;
-  const username = cookieStore.get("discogs_username")?.value;
+    const result = await client.editWant(session.username, releaseId, parsed.details);
 
-  if (!accessToken || !accessTokenSecret || !username) {
-    return NextResponse.json(
-      { error: "Not authenticated" },
-      { status: 401 }
-    );
+    return NextResponse.json({
+      success: true,
+      releaseId,
+      result,
+    });
   }
+);
 
-  try {
+export const DELETE = withSession(
+  { errorMessage: "Failed to remove from wantlist", csrf: true },
+  async ({ request, session, client }) => {
     const { releaseId } = await request.json();
 
     if (!releaseId || typeof releaseId !== "number") {
-      return NextResponse.json(
-        { error: "Invalid release ID" },
-        { status: 400 }
-      );
+      return apiError(400, "invalid_request", "Invalid release ID");
     }
 
-    const client = createDiscogsClient(
-      consumerKey,
-      consumerSecret,
-      accessToken,
-      accessTokenSecret
-    );
-
-    await client.removeFromWantlist(username, releaseId);
+    await client.removeFromWantlist(session.username, releaseId);
 
     return NextResponse.json({
       success: true,
       releaseId,
     });
-  } catch (error) {
-    console.error("Remove from wantlist error:", error);
-    return NextResponse.json(
-      { error: "Failed to remove from wantlist" },
-      { status: 500 }
-    );
   }
-}
+);
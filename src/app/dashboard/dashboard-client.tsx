@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -8,12 +8,38 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { DNACharts } from "@/components/dna-charts";
 import { FriendCompare } from "@/components/friend-compare";
 import { Recommendations } from "@/components/recommendations";
+import { ArtistCompletion } from "@/components/artist-completion";
+import { LabelCatalog } from "@/components/label-catalog";
+import { ListCompare } from "@/components/list-compare";
+import { WantlistView } from "@/components/wantlist-view";
+import { FolderSelector } from "@/components/folder-selector";
+import { ConditionFilter, type ConditionFilterValue } from "@/components/condition-filter";
+import { ValueTrend } from "@/components/value-trend";
+import { StatCard } from "@/components/stat-card";
+import { AccountSwitcher } from "@/components/account-switcher";
+import { CachePanel } from "@/components/cache-panel";
+import { ReleaseDrawer, type ReleaseTarget } from "@/components/release-drawer";
+import { useCollectionActions } from "@/hooks/use-collection-actions";
 import Link from "next/link";
-import type { DiscogsRelease } from "@/lib/discogs";
+import type {
+  DiscogsCollectionField,
+  DiscogsCollectionValue,
+  DiscogsFolder,
+  DiscogsRelease,
+} from "@/lib/discogs";
+import { getCondition } from "@/lib/collection-fields";
+import { calculateStats } from "@/lib/collection-stats";
+import { recordCollectionValue, type CollectionValueSnapshot } from "@/lib/collection-value";
+import type { RateLimitState } from "@/lib/discogs-scheduler";
+import type { AccountSummary } from "@/lib/session";
+import { needsSignIn } from "@/lib/api-errors";
+import { streamCollection } from "@/lib/collection-stream";
+import { deleteCache, readCache, writeCache } from "@/lib/browser-cache";
 
 interface DashboardClientProps {
   username: string;
   avatarUrl?: string;
+  accounts: AccountSummary[];
   expectedTotal?: number;
 }
 
@@ -22,51 +48,32 @@ interface CollectionData {
   total: number;
 }
 
-interface CachedCollection {
-  data: CollectionData;
-  timestamp: number;
-  username: string;
-}
-
-const COLLECTION_CACHE_KEY = "deepcogs_collection";
+// The cache holds the whole collection (all folders) under one key
+const COLLECTION_CACHE_KEY = "all";
 const COLLECTION_CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+const RATE_LIMIT_POLL_INTERVAL = 2000;
 
-function loadCollectionFromCache(username: string, expectedTotal?: number): CollectionData | null {
-  try {
-    const cached = localStorage.getItem(COLLECTION_CACHE_KEY);
-    if (!cached) return null;
-
-    const { data, timestamp, username: cachedUsername }: CachedCollection = JSON.parse(cached);
+async function loadCollectionFromCache(
+  username: string,
+  expectedTotal?: number
+): Promise<CollectionData | null> {
+  const cached = await readCache<CollectionData>(username, "collection", COLLECTION_CACHE_KEY);
+  if (!cached) return null;
 
-    // Invalidate if different user
-    if (cachedUsername !== username) return null;
+  // Invalidate if TTL expired
+  if (Date.now() - cached.savedAt > COLLECTION_CACHE_TTL) return null;
 
-    // Invalidate if TTL expired
-    if (Date.now() - timestamp > COLLECTION_CACHE_TTL) return null;
+  // Invalidate if collection size changed (if we know expected total)
+  if (expectedTotal !== undefined && cached.data.total !== expectedTotal) return null;
 
-    // Invalidate if collection size changed (if we know expected total)
-    if (expectedTotal !== undefined && data.total !== expectedTotal) return null;
-
-    return data;
-  } catch {
-    return null;
-  }
+  return cached.data;
 }
 
 function saveCollectionToCache(data: CollectionData, username: string): void {
-  try {
-    const cached: CachedCollection = {
-      data,
-      timestamp: Date.now(),
-      username,
-    };
-    localStorage.setItem(COLLECTION_CACHE_KEY, JSON.stringify(cached));
-  } catch {
-    // localStorage might be full or disabled
-  }
+  void writeCache(username, "collection", COLLECTION_CACHE_KEY, data);
 }
 
-type TabValue = "dna" | "compare" | "discover";
+type TabValue = "dna" | "compare" | "discover" | "artists" | "labels" | "lists" | "wantlist";
 
 // Icons as components
 const DNAIcon = () => (
@@ -87,6 +94,31 @@ const DiscoverIcon = () => (
   </svg>
 );
 
+const ArtistsIcon = () => (
+  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 6a3.75 3.75 0 1 1-7.5 0 3.75 3.75 0 0 1 7.5 0ZM4.501 20.118a7.5 7.5 0 0 1 14.998 0A17.933 17.933 0 0 1 12 21.75c-2.676 0-5.216-.584-7.499-1.632Z" />
+  </svg>
+);
+
+const LabelsIcon = () => (
+  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M9.568 3H5.25A2.25 2.25 0 0 0 3 5.25v4.318c0 .597.237 1.17.659 1.591l9.581 9.581c.699.699 1.78.872 2.607.33a18.095 18.095 0 0 0 5.223-5.223c.542-.827.369-1.908-.33-2.607L11.16 3.66A2.25 2.25 0 0 0 9.568 3Z" />
+    <path strokeLinecap="round" strokeLinejoin="round" d="M6 6h.008v.008H6V6Z" />
+  </svg>
+);
+
+const ListsIcon = () => (
+  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 6.75h12M8.25 12h12m-12 5.25h12M3.75 6.75h.007v.008H3.75V6.75Zm.375 0a.375.375 0 1 1-.75 0 .375.375 0 0 1 .75 0ZM3.75 12h.007v.008H3.75V12Zm.375 0a.375.375 0 1 1-.75 0 .375.375 0 0 1 .75 0Zm-.375 5.25h.007v.008H3.75v-.008Zm.375 0a.375.375 0 1 1-.75 0 .375.375 0 0 1 .75 0Z" />
+  </svg>
+);
+
+const WantlistIcon = () => (
+  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M21 8.25c0-2.485-2.099-4.5-4.688-4.5-1.935 0-3.597 1.126-4.312 2.733-.715-1.607-2.377-2.733-4.313-2.733C5.1 3.75 3 5.765 3 8.25c0 7.22 9 12 9 12s9-4.78 9-12Z" />
+  </svg>
+);
+
 const LogoutIcon = () => (
   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
     <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 9V5.25A2.25 2.25 0 0 1 10.5 3h6a2.25 2.25 0 0 1 2.25 2.25v13.5A2.25 2.25 0 0 1 16.5 21h-6a2.25 2.25 0 0 1-2.25-2.25V15m-3 0-3-3m0 0 3-3m-3 3H15" />
@@ -101,32 +133,28 @@ const VinylIcon = () => (
   </svg>
 );
 
-export function DashboardClient({ username, avatarUrl, expectedTotal }: DashboardClientProps) {
+export function DashboardClient({ username, avatarUrl, accounts, expectedTotal }: DashboardClientProps) {
   const [collection, setCollection] = useState<CollectionData | null>(null);
   const [loading, setLoading] = useState(true);
   const [loadedCount, setLoadedCount] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [signInRequired, setSignInRequired] = useState(false);
   const [fromCache, setFromCache] = useState(false);
   const [activeTab, setActiveTab] = useState<TabValue>("dna");
-
-  const fetchPage = useCallback(async (page: number, existingReleases: DiscogsRelease[] = []) => {
-    const response = await fetch(`/api/collection?username=${username}&page=${page}`);
-    if (!response.ok) {
-      throw new Error("Failed to fetch collection");
-    }
-    const data = await response.json();
-    return {
-      releases: [...existingReleases, ...data.releases],
-      total: data.total,
-      hasMore: data.hasMore,
-      page: data.page,
-    };
-  }, [username]);
+  const [rateLimited, setRateLimited] = useState(false);
+  const [folders, setFolders] = useState<DiscogsFolder[]>([]);
+  const [selectedFolders, setSelectedFolders] = useState<number[]>([]);
+  const [fields, setFields] = useState<DiscogsCollectionField[]>([]);
+  const [conditionFilter, setConditionFilter] = useState<ConditionFilterValue | null>(null);
+  const [value, setValue] = useState<DiscogsCollectionValue | null>(null);
+  const [valueHistory, setValueHistory] = useState<CollectionValueSnapshot[]>([]);
+  const [openRelease, setOpenRelease] = useState<ReleaseTarget | null>(null);
+  const closeRelease = useCallback(() => setOpenRelease(null), []);
 
   const fetchCollection = useCallback(async (bypassCache = false) => {
     // Try cache first (unless bypassing)
     if (!bypassCache) {
-      const cached = loadCollectionFromCache(username, expectedTotal);
+      const cached = await loadCollectionFromCache(username, expectedTotal);
       if (cached) {
         setCollection(cached);
         setFromCache(true);
@@ -138,18 +166,15 @@ export function DashboardClient({ username, avatarUrl, expectedTotal }: Dashboar
     try {
       setLoading(true);
       setFromCache(false);
-      let allReleases: DiscogsRelease[] = [];
-      let currentPageNum = 1;
-      let hasMore = true;
+      const allReleases: DiscogsRelease[] = [];
       let total = 0;
 
-      while (hasMore) {
-        const result = await fetchPage(currentPageNum, allReleases);
-        allReleases = result.releases;
-        total = result.total;
-        hasMore = result.hasMore;
-        currentPageNum = result.page + 1;
-        setLoadedCount(allReleases.length);
+      for await (const page of streamCollection(username)) {
+        allReleases.push(...page.releases);
+        total = page.total;
+        setLoadedCount(page.loaded);
+        // Charts render what has arrived so far
+        setCollection({ releases: [...allReleases], total });
       }
 
       const collectionData = { releases: allReleases, total };
@@ -157,22 +182,165 @@ export function DashboardClient({ username, avatarUrl, expectedTotal }: Dashboar
       saveCollectionToCache(collectionData, username);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load collection");
+      setSignInRequired(needsSignIn(err));
     } finally {
       setLoading(false);
     }
-  }, [fetchPage, username, expectedTotal]);
+  }, [username, expectedTotal]);
+
+  // Apply collection writes locally so edits don't need a refetch
+  const applyCollectionChange = useCallback(
+    (update: (releases: DiscogsRelease[]) => DiscogsRelease[]) => {
+      if (!collection) return;
+      const releases = update(collection.releases);
+      const next = {
+        releases,
+        total: collection.total + releases.length - collection.releases.length,
+      };
+      setCollection(next);
+      saveCollectionToCache(next, username);
+    },
+    [collection, username]
+  );
+
+  const handleInstanceUpdated = useCallback(
+    (updated: DiscogsRelease) =>
+      applyCollectionChange((releases) =>
+        releases.map((r) => (r.instance_id === updated.instance_id ? updated : r))
+      ),
+    [applyCollectionChange]
+  );
+
+  const handleInstanceRemoved = useCallback(
+    (removed: DiscogsRelease) =>
+      applyCollectionChange((releases) =>
+        releases.filter((r) => r.instance_id !== removed.instance_id)
+      ),
+    [applyCollectionChange]
+  );
+
+  // Added releases have no basic_information yet, drop the cache so the
+  // next load picks them up
+  const handleReleaseAdded = useCallback(() => {
+    void deleteCache(username, "collection", COLLECTION_CACHE_KEY);
+  }, [username]);
+
+  const collectionActions = useCollectionActions({
+    onUpdated: handleInstanceUpdated,
+    onRemoved: handleInstanceRemoved,
+    onAdded: handleReleaseAdded,
+  });
 
   useEffect(() => {
     fetchCollection();
   }, [fetchCollection]);
 
+  // Poll the server-side request queue while loading so we can tell the
+  // user we're waiting on Discogs rather than stalled
+  useEffect(() => {
+    if (!loading) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch("/api/rate-limit");
+        if (!response.ok) return;
+        const state: RateLimitState = await response.json();
+        setRateLimited(state.waiting);
+      } catch {
+        // Polling is best-effort
+      }
+    }, RATE_LIMIT_POLL_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+      setRateLimited(false);
+    };
+  }, [loading]);
+
+  useEffect(() => {
+    const fetchFolders = async () => {
+      try {
+        const response = await fetch(
+          `/api/collection/folders?username=${encodeURIComponent(username)}`
+        );
+        if (!response.ok) return;
+        const data = await response.json();
+        setFolders(data.folders || []);
+      } catch {
+        // Folder selection is optional; fall back to the whole collection
+      }
+    };
+
+    const fetchFields = async () => {
+      try {
+        const response = await fetch(
+          `/api/collection/fields?username=${encodeURIComponent(username)}`
+        );
+        if (!response.ok) return;
+        const data = await response.json();
+        setFields(data.fields || []);
+      } catch {
+        // Fall back to Discogs' default field IDs
+      }
+    };
+
+    const fetchValue = async () => {
+      try {
+        const response = await fetch("/api/collection/value");
+        if (!response.ok) return;
+        const data: DiscogsCollectionValue = await response.json();
+        setValue(data);
+        setValueHistory(recordCollectionValue(username, data));
+      } catch {
+        // Value is informational only
+      }
+    };
+
+    fetchFolders();
+    fetchFields();
+    fetchValue();
+  }, [username]);
+
+  // Releases in the selected folders (empty selection = whole collection)
+  // and matching the condition filter. DNA, Compare and Discover all run
+  // on this subset.
+  const releases = useMemo(() => {
+    if (!collection) return [];
+    let filtered = collection.releases;
+
+    if (selectedFolders.length > 0) {
+      const selected = new Set(selectedFolders);
+      filtered = filtered.filter(
+        (r) => r.folder_id !== undefined && selected.has(r.folder_id)
+      );
+    }
+
+    if (conditionFilter) {
+      filtered = filtered.filter(
+        (r) => getCondition(r, conditionFilter.kind, fields) === conditionFilter.grade
+      );
+    }
+
+    return filtered;
+  }, [collection, selectedFolders, conditionFilter, fields]);
+
+  const isFiltered = selectedFolders.length > 0 || conditionFilter !== null;
+
   // Calculate stats from collection
-  const stats = collection ? calculateStats(collection.releases) : null;
+  const stats = collection ? calculateStats(releases) : null;
+
+  // Skeletons only until the first page is in; after that the DNA tab
+  // shows partial results while the rest streams in
+  const showSkeletons = loading && !collection;
 
   const navItems = [
     { id: "dna" as const, label: "DNA", icon: DNAIcon },
     { id: "compare" as const, label: "Compare", icon: CompareIcon },
     { id: "discover" as const, label: "Discover", icon: DiscoverIcon },
+    { id: "artists" as const, label: "Artists", icon: ArtistsIcon },
+    { id: "labels" as const, label: "Labels", icon: LabelsIcon },
+    { id: "lists" as const, label: "Lists", icon: ListsIcon },
+    { id: "wantlist" as const, label: "Wantlist", icon: WantlistIcon },
   ];
 
   return (
@@ -202,7 +370,9 @@ export function DashboardClient({ username, avatarUrl, expectedTotal }: Dashboar
               <p className="text-sm font-medium text-gray-900 truncate">{username}</p>
               <p className="text-xs text-gray-500">
                 {loading
-                  ? expectedTotal
+                  ? rateLimited
+                    ? "Waiting for rate limit..."
+                    : expectedTotal
                     ? `Loading ${loadedCount}/${expectedTotal}...`
                     : `Loading ${loadedCount}...`
                   : `${collection?.total || 0} releases`}
@@ -223,10 +393,11 @@ export function DashboardClient({ username, avatarUrl, expectedTotal }: Dashboar
               </button>
             )}
           </div>
+          <AccountSwitcher username={username} accounts={accounts} />
         </div>
 
         {/* Navigation */}
-        <nav className="flex-1 p-4">
+        <nav className="flex-1 p-4 overflow-y-auto">
           <p className="text-xs font-medium text-gray-400 uppercase tracking-wider mb-3 px-2">
             Navigation
           </p>
@@ -247,6 +418,24 @@ export function DashboardClient({ username, avatarUrl, expectedTotal }: Dashboar
               </li>
             ))}
           </ul>
+
+          {folders.length > 0 && (
+            <div className="mt-6">
+              <FolderSelector
+                folders={folders}
+                selected={selectedFolders}
+                onChange={setSelectedFolders}
+              />
+            </div>
+          )}
+
+          <div className="mt-6">
+            <ConditionFilter value={conditionFilter} onChange={setConditionFilter} />
+          </div>
+
+          <div className="mt-6">
+            <CachePanel username={username} />
+          </div>
         </nav>
 
         {/* Sign out */}
@@ -256,7 +445,7 @@ export function DashboardClient({ username, avatarUrl, expectedTotal }: Dashboar
             className="w-full justify-start gap-3 text-gray-600 hover:text-gray-900 hover:bg-gray-100"
             asChild
           >
-            <Link href="/api/auth/logout">
+            <Link href="/logout">
               <LogoutIcon />
               Sign out
             </Link>
@@ -273,11 +462,19 @@ export function DashboardClient({ username, avatarUrl, expectedTotal }: Dashboar
               {activeTab === "dna" && "Collection DNA"}
               {activeTab === "compare" && "Compare Collections"}
               {activeTab === "discover" && "Discover New Music"}
+              {activeTab === "artists" && "Artist Discographies"}
+              {activeTab === "labels" && "Label Catalogues"}
+              {activeTab === "lists" && "Discogs Lists"}
+              {activeTab === "wantlist" && "Your Wantlist"}
             </h1>
             <p className="text-sm text-gray-500 mt-1">
               {activeTab === "dna" && "Analyze the patterns in your vinyl collection"}
               {activeTab === "compare" && "Find overlaps and trade opportunities with friends"}
               {activeTab === "discover" && "Get personalized recommendations based on your taste"}
+              {activeTab === "artists" && "See which records you're missing from the artists you collect"}
+              {activeTab === "labels" && "Find the gaps in the catalog series you've started"}
+              {activeTab === "lists" && "See what you own, want and miss from any public list"}
+              {activeTab === "wantlist" && "Rate your wants and keep notes on why you want them"}
             </p>
           </div>
         </header>
@@ -288,14 +485,21 @@ export function DashboardClient({ username, avatarUrl, expectedTotal }: Dashboar
             <Card className="mb-6 border-red-200 bg-red-50">
               <CardContent className="py-4">
                 <p className="text-red-700">{error}</p>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="mt-2"
-                  onClick={() => window.location.reload()}
-                >
-                  Retry
-                </Button>
+                {signInRequired ? (
+                  // Signing in again replaces this account's stored credentials
+                  <Button asChild variant="outline" size="sm" className="mt-2">
+                    <Link href="/login?add=1">Sign in again</Link>
+                  </Button>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-2"
+                    onClick={() => window.location.reload()}
+                  >
+                    Retry
+                  </Button>
+                )}
               </CardContent>
             </Card>
           )}
@@ -304,35 +508,50 @@ export function DashboardClient({ username, avatarUrl, expectedTotal }: Dashboar
           {activeTab === "dna" && (
             <div className="space-y-6">
               {/* Stat Cards */}
-              <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
                 <StatCard
-                  label="Total Releases"
-                  value={loading ? "-" : String(collection?.total || 0)}
+                  label={isFiltered ? "Filtered Releases" : "Total Releases"}
+                  value={showSkeletons ? "-" : String(isFiltered ? releases.length : collection?.total || 0)}
                   icon={<VinylIcon />}
-                  loading={loading}
+                  loading={showSkeletons}
                 />
                 <StatCard
                   label="Top Genre"
-                  value={loading ? "-" : stats?.topGenre || "N/A"}
+                  value={showSkeletons ? "-" : stats?.topGenre || "N/A"}
                   sublabel={stats?.topGenrePercent ? `${stats.topGenrePercent}%` : undefined}
-                  loading={loading}
+                  loading={showSkeletons}
                 />
                 <StatCard
                   label="Top Decade"
-                  value={loading ? "-" : stats?.topDecade || "N/A"}
+                  value={showSkeletons ? "-" : stats?.topDecade || "N/A"}
                   sublabel={stats?.topDecadePercent ? `${stats.topDecadePercent}%` : undefined}
-                  loading={loading}
+                  loading={showSkeletons}
                 />
                 <StatCard
                   label="Top Label"
-                  value={loading ? "-" : stats?.topLabel || "N/A"}
+                  value={showSkeletons ? "-" : stats?.topLabel || "N/A"}
                   sublabel={stats?.topLabelCount ? `${stats.topLabelCount} releases` : undefined}
-                  loading={loading}
+                  loading={showSkeletons}
+                />
+                <StatCard
+                  label="Collection Value"
+                  value={value?.median || "N/A"}
+                  sublabel={value ? `${value.minimum}–${value.maximum}` : undefined}
+                  loading={!value && showSkeletons}
                 />
               </div>
 
+              <ValueTrend history={valueHistory} />
+
+              {loading && collection && (
+                <p className="text-sm text-gray-500">
+                  Showing {collection.releases.length}
+                  {collection.total ? ` of ${collection.total}` : ""} releases, still loading...
+                </p>
+              )}
+
               {/* Charts */}
-              {loading ? (
+              {showSkeletons ? (
                 <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
                   {[...Array(3)].map((_, i) => (
                     <Card key={i} className="bg-white">
@@ -347,7 +566,13 @@ export function DashboardClient({ username, avatarUrl, expectedTotal }: Dashboar
                   ))}
                 </div>
               ) : collection ? (
-                <DNACharts releases={collection.releases} />
+                <DNACharts
+                  releases={releases}
+                  fields={fields}
+                  folders={folders}
+                  collectionActions={collectionActions}
+                  onOpenRelease={setOpenRelease}
+                />
               ) : (
                 <Card className="bg-white">
                   <CardContent className="py-12 text-center">
@@ -374,8 +599,9 @@ export function DashboardClient({ username, avatarUrl, expectedTotal }: Dashboar
             <div className="space-y-6">
               <FriendCompare
                 myUsername={username}
-                myCollection={collection?.releases || []}
+                myCollection={releases}
                 isLoading={loading}
+                onOpenRelease={setOpenRelease}
               />
             </div>
           )}
@@ -384,108 +610,48 @@ export function DashboardClient({ username, avatarUrl, expectedTotal }: Dashboar
           {activeTab === "discover" && (
             <div className="space-y-6">
               <Recommendations
-                releases={collection?.releases || []}
+                username={username}
+                releases={releases}
                 isLoading={loading}
+                collectionActions={collectionActions}
+                onOpenRelease={setOpenRelease}
               />
             </div>
           )}
-        </div>
-      </main>
-    </div>
-  );
-}
 
-// Stat Card Component - Compact version
-function StatCard({
-  label,
-  value,
-  sublabel,
-  icon,
-  loading,
-}: {
-  label: string;
-  value: string;
-  sublabel?: string;
-  icon?: React.ReactNode;
-  loading?: boolean;
-}) {
-  return (
-    <Card className="bg-white">
-      <CardContent className="p-3">
-        <div className="flex items-center gap-3">
-          {icon && (
-            <div className="p-1.5 rounded-md bg-gray-100 text-gray-500 flex-shrink-0">
-              {icon}
-            </div>
+          {/* Artists Tab */}
+          {activeTab === "artists" && (
+            <ArtistCompletion
+              releases={releases}
+              isLoading={loading}
+            />
           )}
-          <div className="min-w-0 flex-1">
-            <p className="text-xs font-medium text-gray-500 truncate">{label}</p>
-            {loading ? (
-              <Skeleton className="h-5 w-16 mt-0.5" />
-            ) : (
-              <div className="flex items-baseline gap-1.5">
-                <p className="text-lg font-semibold text-gray-900 truncate">{value}</p>
-                {sublabel && (
-                  <span className="text-xs text-amber-600 flex-shrink-0">{sublabel}</span>
-                )}
-              </div>
-            )}
-          </div>
-        </div>
-      </CardContent>
-    </Card>
-  );
-}
 
-// Helper function to calculate stats
-function calculateStats(releases: DiscogsRelease[]) {
-  if (!releases.length) return null;
+          {/* Labels Tab */}
+          {activeTab === "labels" && (
+            <LabelCatalog
+              releases={releases}
+              isLoading={loading}
+            />
+          )}
 
-  // Genre stats
-  const genreCounts: Record<string, number> = {};
-  releases.forEach((r) => {
-    r.basic_information.genres?.forEach((g) => {
-      genreCounts[g] = (genreCounts[g] || 0) + 1;
-    });
-  });
-  const topGenreEntry = Object.entries(genreCounts).sort((a, b) => b[1] - a[1])[0];
-  const topGenre = topGenreEntry?.[0] || "N/A";
-  const topGenrePercent = topGenreEntry
-    ? Math.round((topGenreEntry[1] / releases.length) * 100)
-    : 0;
-
-  // Decade stats
-  const decadeCounts: Record<string, number> = {};
-  releases.forEach((r) => {
-    const year = r.basic_information.year;
-    if (year && year > 1900) {
-      const decade = `${Math.floor(year / 10) * 10}s`;
-      decadeCounts[decade] = (decadeCounts[decade] || 0) + 1;
-    }
-  });
-  const topDecadeEntry = Object.entries(decadeCounts).sort((a, b) => b[1] - a[1])[0];
-  const topDecade = topDecadeEntry?.[0] || "N/A";
-  const topDecadePercent = topDecadeEntry
-    ? Math.round((topDecadeEntry[1] / releases.length) * 100)
-    : 0;
-
-  // Label stats
-  const labelCounts: Record<string, number> = {};
-  releases.forEach((r) => {
-    r.basic_information.labels?.forEach((l) => {
-      labelCounts[l.name] = (labelCounts[l.name] || 0) + 1;
-    });
-  });
-  const topLabelEntry = Object.entries(labelCounts).sort((a, b) => b[1] - a[1])[0];
-  const topLabel = topLabelEntry?.[0] || "N/A";
-  const topLabelCount = topLabelEntry?.[1] || 0;
-
-  return {
-    topGenre,
-    topGenrePercent,
-    topDecade,
-    topDecadePercent,
-    topLabel,
-    topLabelCount,
-  };
+          {/* Lists Tab */}
+          {activeTab === "lists" && (
+            <ListCompare
+              username={username}
+              releases={releases}
+              isLoading={loading}
+            />
+          )}
+
+          {/* Wantlist Tab */}
+          {activeTab === "wantlist" && (
+            <WantlistView username={username} onOpenRelease={setOpenRelease} />
+          )}
+        </div>
+      </main>
+
+      <ReleaseDrawer target={openRelease} onClose={closeRelease} />
+    </div>
+  );
 }
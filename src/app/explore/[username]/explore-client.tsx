@@ -0,0 +1,190 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { DNACharts } from "@/components/dna-charts";
+import { StatCard } from "@/components/stat-card";
+import type { DiscogsRelease } from "@/lib/discogs";
+import { calculateStats } from "@/lib/collection-stats";
+import { describeCollectionError } from "@/lib/api-errors";
+import { streamCollection } from "@/lib/collection-stream";
+
+interface ExploreClientProps {
+  username: string; // whose collection is shown
+  viewerUsername?: string; // signed-in viewer, if any
+}
+
+// Features that act on the viewer's own Discogs account
+const SIGNED_IN_FEATURES = [
+  "Recommendations based on the collection",
+  "Adding records to your wantlist or collection",
+  "Comparing with your own collection",
+];
+
+export function ExploreClient({ username, viewerUsername }: ExploreClientProps) {
+  const [releases, setReleases] = useState<DiscogsRelease[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loadedCount, setLoadedCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const all: DiscogsRelease[] = [];
+        for await (const page of streamCollection(username, { signal: controller.signal })) {
+          all.push(...page.releases);
+          setLoadedCount(page.loaded);
+          setTotal(page.total);
+          // Charts fill in as pages arrive
+          setReleases([...all]);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(describeCollectionError(err, username));
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+      controller.abort();
+    };
+  }, [username]);
+
+  const stats = useMemo(() => calculateStats(releases), [releases]);
+  const showSkeletons = loading && releases.length === 0;
+
+  return (
+    <div className="min-h-screen bg-[#fafafa]">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-8 py-6 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4 min-w-0">
+            <Link href="/" className="flex-shrink-0">
+              <div className="w-9 h-9 rounded-lg bg-[#0a0a0a] flex items-center justify-center">
+                <span className="text-white font-bold text-sm">D</span>
+              </div>
+            </Link>
+            <div className="min-w-0">
+              <h1 className="text-2xl font-semibold text-gray-900 truncate">
+                {username}&apos;s Collection DNA
+              </h1>
+              <p className="text-sm text-gray-500 mt-1">
+                {loading
+                  ? `Loading ${loadedCount}${total ? `/${total}` : ""}...`
+                  : `${total} releases • Public collection`}
+              </p>
+            </div>
+          </div>
+          {viewerUsername ? (
+            <Button asChild className="bg-gray-900 hover:bg-gray-800 text-white flex-shrink-0">
+              <Link href="/dashboard">Back to your dashboard</Link>
+            </Button>
+          ) : (
+            <Button asChild className="bg-gray-900 hover:bg-gray-800 text-white flex-shrink-0">
+              <Link href="/login">Sign in with Discogs</Link>
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-8 space-y-6">
+        {error && (
+          <Card className="border-red-200 bg-red-50">
+            <CardContent className="py-4">
+              <p className="text-red-700">{error}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Stat Cards */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          <StatCard
+            label="Total Releases"
+            value={showSkeletons ? "-" : String(total)}
+            loading={showSkeletons}
+          />
+          <StatCard
+            label="Top Genre"
+            value={showSkeletons ? "-" : stats?.topGenre || "N/A"}
+            sublabel={stats?.topGenrePercent ? `${stats.topGenrePercent}%` : undefined}
+            loading={showSkeletons}
+          />
+          <StatCard
+            label="Top Decade"
+            value={showSkeletons ? "-" : stats?.topDecade || "N/A"}
+            sublabel={stats?.topDecadePercent ? `${stats.topDecadePercent}%` : undefined}
+            loading={showSkeletons}
+          />
+          <StatCard
+            label="Top Label"
+            value={showSkeletons ? "-" : stats?.topLabel || "N/A"}
+            sublabel={stats?.topLabelCount ? `${stats.topLabelCount} releases` : undefined}
+            loading={showSkeletons}
+          />
+        </div>
+
+        {/* Charts */}
+        {showSkeletons ? (
+          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {[...Array(3)].map((_, i) => (
+              <Card key={i} className="bg-white">
+                <CardHeader>
+                  <Skeleton className="h-5 w-32" />
+                  <Skeleton className="h-4 w-48" />
+                </CardHeader>
+                <CardContent>
+                  <Skeleton className="h-48 w-full" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : (
+          releases.length > 0 && <DNACharts releases={releases} />
+        )}
+
+        {/* Features that need the viewer's own account */}
+        {!viewerUsername && (
+          <Card className="bg-white border-gray-200">
+            <CardHeader>
+              <CardTitle className="text-gray-900">Want more?</CardTitle>
+              <CardDescription className="text-gray-500">
+                Sign in with your Discogs account to unlock:
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ul className="space-y-2">
+                {SIGNED_IN_FEATURES.map((feature) => (
+                  <li key={feature} className="flex items-center gap-2 text-sm text-gray-400">
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M16.5 10.5V6.75a4.5 4.5 0 1 0-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 0 0 2.25-2.25v-6.75a2.25 2.25 0 0 0-2.25-2.25H6.75a2.25 2.25 0 0 0-2.25 2.25v6.75a2.25 2.25 0 0 0 2.25 2.25Z"
+                      />
+                    </svg>
+                    {feature}
+                  </li>
+                ))}
+              </ul>
+              <Button asChild className="bg-amber-500 hover:bg-amber-600 text-white">
+                <Link href="/login">Sign in to unlock</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { getSession } from "@/lib/session";
+import { ExploreClient } from "./explore-client";
+
+export default async function ExplorePage({
+  params,
+}: {
+  params: Promise<{ username: string }>;
+}) {
+  const { username } = await params;
+  const session = await getSession();
+
+  return (
+    <ExploreClient
+      username={decodeURIComponent(username)}
+      viewerUsername={session?.username}
+    />
+  );
+}
@@ -2,20 +2,34 @@
 
 import { useSearchParams } from "next/navigation";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { VinylRecord } from "@/components/vinyl-record";
 import Link from "next/link";
-import { Suspense } from "react";
+import { Suspense, useState } from "react";
+
+// Errors from the access token form, which reopen it
+const TOKEN_ERRORS = ["invalid_token", "rate_limited", "upstream_error"];
 
 function LoginContent() {
   const searchParams = useSearchParams();
   const error = searchParams.get("error");
+  // Linking another account to an existing session
+  const adding = searchParams.has("add");
+  const [showTokenForm, setShowTokenForm] = useState(
+    error !== null && TOKEN_ERRORS.includes(error)
+  );
 
   const errorMessages: Record<string, string> = {
     config: "Server configuration error. Please try again later.",
     missing_params: "Invalid OAuth response. Please try again.",
     expired: "Session expired. Please try again.",
     auth_failed: "Authentication failed. Please try again.",
+    invalid_state: "That sign-in link doesn't match your session. Please try again.",
+    invalid_token: "Discogs didn't accept that access token. Check it and try again.",
+    invalid_origin: "That sign-in didn't come from this site. Please try again.",
+    rate_limited: "Discogs is rate limiting requests. Try again in a minute.",
+    upstream_error: "Couldn't reach Discogs to check that token. Please try again.",
   };
 
   return (
@@ -54,10 +68,13 @@ function LoginContent() {
 
         <Card className="border-border/50 bg-card/80 backdrop-blur-sm">
           <CardHeader className="text-center">
-            <CardTitle className="text-2xl">Connect your collection</CardTitle>
+            <CardTitle className="text-2xl">
+              {adding ? "Link another account" : "Connect your collection"}
+            </CardTitle>
             <CardDescription className="text-base">
-              Sign in with your Discogs account to analyze your vinyl collection
-              and discover your musical DNA.
+              {adding
+                ? "Sign in with another Discogs account to switch between them from the dashboard. For OAuth, sign in to that account on discogs.com first."
+                : "Sign in with your Discogs account to analyze your vinyl collection and discover your musical DNA."}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
@@ -72,7 +89,7 @@ function LoginContent() {
               className="w-full h-14 text-lg glow-amber"
               asChild
             >
-              <a href="/api/auth/discogs">
+              <a href={adding ? "/api/auth/discogs?add=1" : "/api/auth/discogs"}>
                 <svg
                   className="w-6 h-6 mr-3"
                   viewBox="0 0 24 24"
@@ -88,6 +105,42 @@ function LoginContent() {
               </a>
             </Button>
 
+            {showTokenForm ? (
+              <form action="/api/auth/token" method="POST" className="space-y-3">
+                <Input
+                  name="token"
+                  type="password"
+                  placeholder="Personal access token"
+                  autoComplete="off"
+                  required
+                  className="h-12"
+                />
+                <Button type="submit" variant="outline" className="w-full h-12">
+                  Sign in with token
+                </Button>
+                <p className="text-xs text-muted-foreground text-center">
+                  Generate one under{" "}
+                  <a
+                    href="https://www.discogs.com/settings/developers"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-primary hover:underline"
+                  >
+                    Settings → Developers
+                  </a>{" "}
+                  on Discogs.
+                </p>
+              </form>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setShowTokenForm(true)}
+                className="w-full text-sm text-muted-foreground hover:text-foreground transition-colors"
+              >
+                Use a personal access token instead
+              </button>
+            )}
+
             <div className="text-center text-sm text-muted-foreground">
               <p className="mb-2">By connecting, you allow DeepCogs to:</p>
               <ul className="space-y-1">
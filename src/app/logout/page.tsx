@@ -0,0 +1,48 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CSRF_FIELD } from "@/lib/csrf";
+import { getSession } from "@/lib/session";
+
+export default async function LogoutPage() {
+  const session = await getSession();
+
+  // Nothing to sign out of
+  if (!session) {
+    redirect("/");
+  }
+
+  return (
+    <main className="min-h-screen flex items-center justify-center p-6 bg-gray-50">
+      <Card className="w-full max-w-sm bg-white border-gray-200">
+        <CardHeader className="text-center">
+          <CardTitle className="text-gray-900">Sign out?</CardTitle>
+          <CardDescription className="text-gray-500">
+            You&apos;re signed in as {session.username}
+            {session.accounts.length > 1 &&
+              ` with ${session.accounts.length - 1} more linked account${
+                session.accounts.length > 2 ? "s" : ""
+              }. All of them will be signed out`}
+            .
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form action="/api/auth/logout" method="POST" className="flex gap-3">
+            <input type="hidden" name={CSRF_FIELD} value={session.csrfToken} />
+            <Button
+              variant="outline"
+              className="flex-1 border-gray-200 text-gray-700 hover:bg-gray-100"
+              asChild
+            >
+              <Link href="/dashboard">Cancel</Link>
+            </Button>
+            <Button type="submit" className="flex-1 bg-gray-900 hover:bg-gray-800 text-white">
+              Sign out
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
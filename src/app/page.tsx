@@ -1,8 +1,22 @@
 "use client";
 
+import { useState } from "react";
+import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 
 export default function Home() {
+  const router = useRouter();
+  const [exploreUsername, setExploreUsername] = useState("");
+
+  const handleExplore = (e: React.FormEvent) => {
+    e.preventDefault();
+    const username = exploreUsername.trim();
+    if (username) {
+      router.push(`/explore/${encodeURIComponent(username)}`);
+    }
+  };
+
   return (
     <main className="min-h-screen flex flex-col lg:flex-row bg-white">
       {/* LEFT PANEL - Visual/Brand (full bleed) */}
@@ -83,6 +97,24 @@ export default function Home() {
             )}
           </div>
 
+          {/* Guest mode */}
+          <form onSubmit={handleExplore} className="flex gap-2 mb-6">
+            <Input
+              placeholder="Or explore any Discogs username"
+              value={exploreUsername}
+              onChange={(e) => setExploreUsername(e.target.value)}
+              className="h-10 bg-white border-gray-200 text-gray-900 placeholder:text-gray-400"
+            />
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={!exploreUsername.trim()}
+              className="h-10 border-gray-200 text-gray-700 hover:bg-gray-100"
+            >
+              Explore
+            </Button>
+          </form>
+
           {/* Create account link */}
           <p className="text-sm text-gray-500">
             Don&apos;t have a Discogs account?{" "}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { mutationHeaders } from "@/lib/csrf";
+import type { AccountSummary } from "@/lib/session";
+
+interface AccountSwitcherProps {
+  username: string; // active account
+  accounts: AccountSummary[];
+}
+
+export function AccountSwitcher({ username, accounts }: AccountSwitcherProps) {
+  const [open, setOpen] = useState(false);
+  const [switching, setSwitching] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const others = accounts.filter((a) => a.username !== username);
+
+  const switchTo = async (target: string) => {
+    setSwitching(target);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/auth/accounts", {
+        method: "POST",
+        headers: mutationHeaders(),
+        body: JSON.stringify({ username: target }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to switch account");
+      }
+
+      // Full reload so the dashboard starts over with the other account's data
+      window.location.assign("/dashboard");
+    } catch (err) {
+      console.error("Failed to switch account:", err);
+      setError("Couldn't switch account");
+      setSwitching(null);
+    }
+  };
+
+  return (
+    <div className="mt-2">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-2 py-1 rounded-md text-xs text-gray-500 hover:text-gray-900 hover:bg-gray-100 transition-colors"
+      >
+        <span>{others.length > 0 ? `Switch account (${others.length})` : "Accounts"}</span>
+        <svg
+          className={`w-3.5 h-3.5 transition-transform ${open ? "rotate-180" : ""}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <ul className="mt-1 space-y-0.5">
+          {others.map((account) => (
+            <li key={account.username}>
+              <button
+                onClick={() => switchTo(account.username)}
+                disabled={switching !== null}
+                className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-sm text-gray-700 hover:bg-gray-100 transition-colors disabled:opacity-50"
+              >
+                <Avatar className="w-6 h-6">
+                  {account.avatarUrl && (
+                    <AvatarImage src={account.avatarUrl} alt={account.username} />
+                  )}
+                  <AvatarFallback className="bg-amber-100 text-amber-700 text-xs font-medium">
+                    {account.username[0].toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="truncate flex-1 text-left">{account.username}</span>
+                {switching === account.username && (
+                  <span className="text-xs text-gray-400">Switching...</span>
+                )}
+              </button>
+            </li>
+          ))}
+          <li>
+            <Link
+              href="/login?add=1"
+              className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-sm text-gray-500 hover:text-gray-900 hover:bg-gray-100 transition-colors"
+            >
+              <span className="w-6 h-6 rounded-full border border-dashed border-gray-300 flex items-center justify-center text-gray-400">
+                +
+              </span>
+              Link another account
+            </Link>
+          </li>
+        </ul>
+      )}
+
+      {error && <p className="mt-1 px-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
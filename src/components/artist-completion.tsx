@@ -0,0 +1,249 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { WantlistButton } from "@/components/wantlist-button";
+import { useWantlist } from "@/hooks/use-wantlist";
+import type { DiscogsArtistRelease, DiscogsRelease } from "@/lib/discogs";
+import { buildDiscography, getCollectionArtists } from "@/lib/discography";
+
+interface ArtistCompletionProps {
+  releases: DiscogsRelease[];
+  isLoading: boolean;
+}
+
+type EntryFilter = "missing" | "owned" | "all";
+
+const ARTIST_LIST_LIMIT = 30;
+
+export function ArtistCompletion({ releases, isLoading }: ArtistCompletionProps) {
+  const [query, setQuery] = useState("");
+  const [selectedArtist, setSelectedArtist] = useState<{ id: number; name: string } | null>(null);
+  const [artistReleases, setArtistReleases] = useState<DiscogsArtistRelease[] | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<EntryFilter>("missing");
+  const { getStatus, addToWantlist } = useWantlist();
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop loading when leaving the tab
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const artists = useMemo(() => getCollectionArtists(releases), [releases]);
+
+  const visibleArtists = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const matching = q ? artists.filter((a) => a.name.toLowerCase().includes(q)) : artists;
+    return matching.slice(0, ARTIST_LIST_LIMIT);
+  }, [artists, query]);
+
+  const discography = useMemo(
+    () => (artistReleases ? buildDiscography(artistReleases, releases) : null),
+    [artistReleases, releases]
+  );
+
+  const selectArtist = async (artist: { id: number; name: string }) => {
+    // A slower response for the previous artist must not overwrite this one
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
+    setSelectedArtist(artist);
+    setArtistReleases(null);
+    setError(null);
+    setLoading(true);
+
+    try {
+      const response = await fetch(`/api/artists/${artist.id}/releases`, { signal });
+      if (!response.ok) {
+        throw new Error("Failed to fetch discography");
+      }
+      const data = await response.json();
+      setArtistReleases(data.releases || []);
+      setTruncated(Boolean(data.truncated));
+    } catch (err) {
+      if (!signal.aborted) {
+        setError(err instanceof Error ? err.message : "Failed to fetch discography");
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card className="bg-white border-gray-200">
+        <CardHeader>
+          <CardTitle className="text-gray-900">Artist Completion</CardTitle>
+          <CardDescription className="text-gray-500">Loading your collection first...</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Skeleton className="h-10 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const entries =
+    discography?.entries.filter((e) =>
+      filter === "all" ? true : filter === "owned" ? e.owned : !e.owned
+    ) || [];
+
+  return (
+    <div className="space-y-6">
+      {/* Artist picker */}
+      <Card className="bg-white border-gray-200">
+        <CardHeader>
+          <CardTitle className="text-gray-900">Artist Completion</CardTitle>
+          <CardDescription className="text-gray-500">
+            Pick an artist from your collection to see how much of their discography you own
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input
+            placeholder="Filter artists"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="max-w-xs bg-white border-gray-200 text-gray-900 placeholder:text-gray-400"
+          />
+          <div className="flex flex-wrap gap-2">
+            {visibleArtists.map((artist) => (
+              <button
+                key={artist.id}
+                onClick={() => selectArtist(artist)}
+                className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                  selectedArtist?.id === artist.id
+                    ? "bg-gray-900 text-white border-gray-900"
+                    : "bg-white text-gray-700 border-gray-200 hover:bg-gray-100"
+                }`}
+              >
+                {artist.name} <span className="opacity-60">({artist.count})</span>
+              </button>
+            ))}
+            {visibleArtists.length === 0 && (
+              <p className="text-sm text-gray-500">No matching artists</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="py-4">
+            <p className="text-red-600">{error}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading && (
+        <Card className="bg-white border-gray-200">
+          <CardContent className="pt-6 space-y-3">
+            {[...Array(4)].map((_, i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {selectedArtist && discography && (
+        <Card className="bg-white border-gray-200">
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle className="text-gray-900">{selectedArtist.name}</CardTitle>
+                <CardDescription className="text-gray-500">
+                  You own {discography.owned} of {discography.total} releases
+                  {truncated && " (discography truncated to the first 1,000 entries)"}
+                </CardDescription>
+              </div>
+              <p className="text-3xl font-bold text-amber-600">{discography.percent}%</p>
+            </div>
+            <Progress value={discography.percent} className="mt-3" />
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              {(["missing", "owned", "all"] as const).map((f) => (
+                <button
+                  key={f}
+                  onClick={() => setFilter(f)}
+                  className={`px-3 py-1 rounded-md text-sm font-medium capitalize transition-colors ${
+                    filter === f
+                      ? "bg-gray-900 text-white"
+                      : "text-gray-600 hover:bg-gray-100"
+                  }`}
+                >
+                  {f}
+                </button>
+              ))}
+            </div>
+
+            {entries.length === 0 ? (
+              <p className="text-gray-500 text-center py-8 text-sm">
+                {filter === "missing" ? "Nothing missing - complete!" : "No releases"}
+              </p>
+            ) : (
+              <div className="grid sm:grid-cols-2 gap-3 max-h-[600px] overflow-y-auto">
+                {entries.map((entry) => (
+                  <div
+                    key={entry.key}
+                    className="flex items-center gap-3 p-3 rounded-lg bg-gray-50 border border-gray-100"
+                  >
+                    <a
+                      href={`https://www.discogs.com/${entry.type}/${entry.id}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-3 flex-1 min-w-0"
+                    >
+                      {entry.thumb ? (
+                        <img
+                          src={entry.thumb}
+                          alt={entry.title}
+                          className="w-12 h-12 rounded object-cover flex-shrink-0"
+                        />
+                      ) : (
+                        <div className="w-12 h-12 rounded bg-gray-100 flex-shrink-0" />
+                      )}
+                      <div className="min-w-0 flex-1">
+                        <p className="font-medium text-gray-900 truncate">{entry.title}</p>
+                        <p className="text-sm text-gray-500 truncate">
+                          {entry.year || "N/A"}
+                          {entry.format && ` • ${entry.format}`}
+                        </p>
+                      </div>
+                    </a>
+                    {entry.owned ? (
+                      <span className="text-xs font-medium text-green-600 flex-shrink-0">Owned</span>
+                    ) : (
+                      <WantlistButton
+                        status={getStatus(entry.wantlistReleaseId)}
+                        onClick={() =>
+                          addToWantlist(entry.wantlistReleaseId, {
+                            notes: `Missing from the ${selectedArtist.name} discography`,
+                          })
+                        }
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
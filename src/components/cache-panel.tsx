@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+import { deleteCache, listCache, type CacheEntryInfo } from "@/lib/browser-cache";
+
+interface CachePanelProps {
+  username: string; // whose cache is shown
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatAge(savedAt: number): string {
+  const minutes = Math.floor((Date.now() - savedAt) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+function entryLabel(entry: CacheEntryInfo): string {
+  switch (entry.kind) {
+    case "collection":
+      return "Your collection";
+    case "recommendations":
+      return "Recommendations";
+    case "friends":
+      return `Friend: ${entry.key}`;
+    case "wantlists":
+      return `Wantlist: ${entry.key}`;
+  }
+}
+
+export function CachePanel({ username }: CachePanelProps) {
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<CacheEntryInfo[] | null>(null);
+
+  const toggle = async () => {
+    const next = !open;
+    setOpen(next);
+    // Re-read on every open, other tabs write to the same cache
+    if (next) setEntries(await listCache(username));
+  };
+
+  const clear = async (entry: CacheEntryInfo) => {
+    await deleteCache(username, entry.kind, entry.key);
+    setEntries(await listCache(username));
+  };
+
+  const totalSize = entries?.reduce((sum, e) => sum + e.size, 0) ?? 0;
+
+  return (
+    <div>
+      <button
+        onClick={toggle}
+        className="w-full flex items-center justify-between mb-3 px-2 text-xs font-medium text-gray-400 uppercase tracking-wider hover:text-gray-600 transition-colors"
+      >
+        <span>Cache{open && entries ? ` · ${formatSize(totalSize)}` : ""}</span>
+        <svg
+          className={`w-3.5 h-3.5 transition-transform ${open ? "rotate-180" : ""}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && entries && (
+        entries.length === 0 ? (
+          <p className="px-2 text-xs text-gray-400">Nothing cached</p>
+        ) : (
+          <ul className="space-y-1">
+            {entries.map((entry) => (
+              <li
+                key={entry.id}
+                className="flex items-center gap-2 px-2 py-1 rounded-md hover:bg-gray-50"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-700 truncate">{entryLabel(entry)}</p>
+                  <p className="text-xs text-gray-400">
+                    {formatSize(entry.size)} · {formatAge(entry.savedAt)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => clear(entry)}
+                  className="text-xs text-gray-400 hover:text-red-600 transition-colors"
+                  title="Clear this entry; it's fetched again when next needed"
+                >
+                  Clear
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import {
+  MEDIA_GRADES,
+  SLEEVE_GRADES,
+  UNGRADED,
+  type ConditionKind,
+} from "@/lib/collection-fields";
+
+export interface ConditionFilterValue {
+  kind: ConditionKind;
+  grade: string;
+}
+
+interface ConditionFilterProps {
+  value: ConditionFilterValue | null;
+  onChange: (value: ConditionFilterValue | null) => void;
+}
+
+export function ConditionFilter({ value, onChange }: ConditionFilterProps) {
+  return (
+    <div>
+      <p className="text-xs font-medium text-gray-400 uppercase tracking-wider mb-3 px-2">
+        Condition
+      </p>
+      <select
+        value={value ? `${value.kind}:${value.grade}` : ""}
+        onChange={(e) => {
+          if (!e.target.value) {
+            onChange(null);
+            return;
+          }
+          const [kind, ...grade] = e.target.value.split(":");
+          onChange({ kind: kind as ConditionKind, grade: grade.join(":") });
+        }}
+        className="w-full h-8 px-2 rounded-md border border-gray-200 bg-white text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-amber-200"
+      >
+        <option value="">Any condition</option>
+        <optgroup label="Media">
+          {[...MEDIA_GRADES, UNGRADED].map((grade) => (
+            <option key={grade} value={`media:${grade}`}>
+              {grade}
+            </option>
+          ))}
+        </optgroup>
+        <optgroup label="Sleeve">
+          {[...SLEEVE_GRADES, UNGRADED].map((grade) => (
+            <option key={grade} value={`sleeve:${grade}`}>
+              {grade}
+            </option>
+          ))}
+        </optgroup>
+      </select>
+    </div>
+  );
+}
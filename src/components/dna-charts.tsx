@@ -20,10 +20,18 @@ import {
   Tooltip,
   ResponsiveContainer,
 } from "recharts";
-import type { DiscogsRelease } from "@/lib/discogs";
+import type { DiscogsCollectionField, DiscogsFolder, DiscogsRelease } from "@/lib/discogs";
+import { getConditionDistribution, UNGRADED } from "@/lib/collection-fields";
+import { PressingsCard } from "@/components/pressings-card";
+import type { CollectionActions } from "@/hooks/use-collection-actions";
+import type { ReleaseTarget } from "@/components/release-drawer";
 
 interface DNAChartsProps {
   releases: DiscogsRelease[];
+  fields?: DiscogsCollectionField[];
+  folders?: DiscogsFolder[];
+  collectionActions?: CollectionActions;
+  onOpenRelease?: (target: ReleaseTarget) => void;
 }
 
 // Light theme color palette
@@ -45,9 +53,6 @@ const ODDITY_PATTERNS = {
   limited: /limited|numbered/i,
 };
 
-// Keywords for repress detection
-const REPRESS_PATTERN = /reissue|re-issue|remaster|repress|re-press|2nd\s*press|second\s*press|180\s*g/i;
-
 function analyzeCollection(releases: DiscogsRelease[]) {
   const genres: Record<string, number> = {};
   const styles: Record<string, number> = {};
@@ -59,7 +64,6 @@ function analyzeCollection(releases: DiscogsRelease[]) {
   let testPressings = 0;
   let promos = 0;
   let limited = 0;
-  let represses = 0;
 
   releases.forEach((release) => {
     const info = release.basic_information;
@@ -71,7 +75,6 @@ function analyzeCollection(releases: DiscogsRelease[]) {
     if (ODDITY_PATTERNS.testPressing.test(formatDescriptions)) testPressings++;
     if (ODDITY_PATTERNS.promo.test(formatDescriptions)) promos++;
     if (ODDITY_PATTERNS.limited.test(formatDescriptions)) limited++;
-    if (REPRESS_PATTERN.test(formatDescriptions)) represses++;
 
     info.genres?.forEach((genre) => {
       genres[genre] = (genres[genre] || 0) + 1;
@@ -124,12 +127,27 @@ function analyzeCollection(releases: DiscogsRelease[]) {
       max: Math.max(...Object.keys(years).map(Number)),
     },
     oddities: { testPressings, promos, limited },
-    represses,
   };
 }
 
-export function DNACharts({ releases }: DNAChartsProps) {
+export function DNACharts({
+  releases,
+  fields,
+  folders,
+  collectionActions,
+  onOpenRelease,
+}: DNAChartsProps) {
   const analysis = useMemo(() => analyzeCollection(releases), [releases]);
+  const condition = useMemo(
+    () => ({
+      media: getConditionDistribution(releases, "media", fields),
+      sleeve: getConditionDistribution(releases, "sleeve", fields),
+    }),
+    [releases, fields]
+  );
+  const gradedCount =
+    releases.length -
+    (condition.media.find((c) => c.grade === UNGRADED)?.value || 0);
 
   if (releases.length === 0) {
     return (
@@ -294,49 +312,70 @@ export function DNACharts({ releases }: DNAChartsProps) {
         </Card>
 
         {/* Oddities & Pressings */}
-        <Card className="bg-white border-gray-200">
-          <CardHeader>
-            <CardTitle className="text-gray-900">Oddities & Pressings</CardTitle>
-            <CardDescription className="text-gray-500">
-              Rare formats and pressing breakdown
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-5 gap-3">
-              <div className="text-center p-3 rounded-lg bg-purple-50 border border-purple-100">
-                <p className="text-2xl font-bold text-purple-600">
-                  {analysis.oddities.testPressings}
-                </p>
-                <p className="text-xs text-gray-500">Test Pressings</p>
-              </div>
-              <div className="text-center p-3 rounded-lg bg-blue-50 border border-blue-100">
-                <p className="text-2xl font-bold text-blue-600">
-                  {analysis.oddities.promos}
-                </p>
-                <p className="text-xs text-gray-500">Promos</p>
-              </div>
-              <div className="text-center p-3 rounded-lg bg-amber-50 border border-amber-100">
-                <p className="text-2xl font-bold text-amber-600">
-                  {analysis.oddities.limited}
-                </p>
-                <p className="text-xs text-gray-500">Limited</p>
-              </div>
-              <div className="text-center p-3 rounded-lg bg-green-50 border border-green-100">
-                <p className="text-2xl font-bold text-green-600">
-                  {analysis.totalReleases - analysis.represses}
-                </p>
-                <p className="text-xs text-gray-500">Originals</p>
-              </div>
-              <div className="text-center p-3 rounded-lg bg-red-50 border border-red-100">
-                <p className="text-2xl font-bold text-red-600">
-                  {analysis.represses}
-                </p>
-                <p className="text-xs text-gray-500">Represses</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+        <PressingsCard
+          releases={releases}
+          oddities={analysis.oddities}
+          fields={fields}
+          folders={folders}
+          collectionActions={collectionActions}
+          onOpenRelease={onOpenRelease}
+        />
       </div>
+
+      {/* Condition */}
+      <Card className="bg-white border-gray-200">
+        <CardHeader>
+          <CardTitle className="text-gray-900">Condition</CardTitle>
+          <CardDescription className="text-gray-500">
+            Media and sleeve grades from your collection notes ({gradedCount} of{" "}
+            {releases.length} graded)
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {gradedCount === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">
+              No condition grades yet. Add media and sleeve condition to your
+              collection items on Discogs to see the breakdown here.
+            </p>
+          ) : (
+            <div className="grid md:grid-cols-2 gap-6">
+              {([
+                { label: "Media", data: condition.media },
+                { label: "Sleeve", data: condition.sleeve },
+              ] as const).map(({ label, data }) => (
+                <div key={label}>
+                  <p className="text-sm font-medium text-gray-900 mb-2">{label}</p>
+                  <div className="h-[220px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={data}>
+                        <XAxis dataKey="name" stroke="#9ca3af" fontSize={11} interval={0} />
+                        <YAxis stroke="#9ca3af" fontSize={12} allowDecimals={false} />
+                        <Tooltip
+                          labelFormatter={(_, payload) => payload?.[0]?.payload?.grade ?? ""}
+                          contentStyle={{
+                            background: "#fff",
+                            border: "1px solid #e5e7eb",
+                            borderRadius: "8px",
+                            boxShadow: "0 4px 6px -1px rgb(0 0 0 / 0.1)",
+                          }}
+                        />
+                        <Bar dataKey="value" radius={[4, 4, 0, 0]}>
+                          {data.map((entry) => (
+                            <Cell
+                              key={entry.grade}
+                              fill={entry.grade === UNGRADED ? "#d1d5db" : "#3498DB"}
+                            />
+                          ))}
+                        </Bar>
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
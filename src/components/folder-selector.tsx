@@ -0,0 +1,96 @@
+"use client";
+
+import type { DiscogsFolder } from "@/lib/discogs";
+
+// Discogs' built-in "All" folder. Mirrors ALL_FOLDERS_ID in lib/discogs,
+// which is kept out of client bundles.
+const ALL_FOLDERS_ID = 0;
+
+interface FolderSelectorProps {
+  folders: DiscogsFolder[];
+  selected: number[]; // empty means the whole collection
+  onChange: (selected: number[]) => void;
+}
+
+export function FolderSelector({ folders, selected, onChange }: FolderSelectorProps) {
+  // "All" is implied by an empty selection, so only list real folders
+  const userFolders = folders.filter((f) => f.id !== ALL_FOLDERS_ID);
+  const allFolder = folders.find((f) => f.id === ALL_FOLDERS_ID);
+
+  if (userFolders.length === 0) return null;
+
+  const toggle = (folderId: number) => {
+    if (selected.includes(folderId)) {
+      onChange(selected.filter((id) => id !== folderId));
+    } else {
+      onChange([...selected, folderId]);
+    }
+  };
+
+  return (
+    <div>
+      <p className="text-xs font-medium text-gray-400 uppercase tracking-wider mb-3 px-2">
+        Folders
+      </p>
+      <ul className="space-y-0.5">
+        <li>
+          <FolderButton
+            name="All"
+            count={allFolder?.count}
+            active={selected.length === 0}
+            onClick={() => onChange([])}
+          />
+        </li>
+        {userFolders.map((folder) => (
+          <li key={folder.id}>
+            <FolderButton
+              name={folder.name}
+              count={folder.count}
+              active={selected.includes(folder.id)}
+              onClick={() => toggle(folder.id)}
+            />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function FolderButton({
+  name,
+  count,
+  active,
+  onClick,
+}: {
+  name: string;
+  count?: number;
+  active: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`w-full flex items-center gap-2 px-3 py-1.5 rounded-md text-sm transition-colors ${
+        active
+          ? "bg-amber-50 text-amber-700"
+          : "text-gray-600 hover:bg-gray-100 hover:text-gray-900"
+      }`}
+    >
+      <span
+        className={`w-3.5 h-3.5 rounded border flex items-center justify-center flex-shrink-0 ${
+          active ? "bg-amber-500 border-amber-500" : "border-gray-300"
+        }`}
+      >
+        {active && (
+          <svg className="w-2.5 h-2.5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+          </svg>
+        )}
+      </span>
+      <span className="truncate flex-1 text-left">{name}</span>
+      {count !== undefined && (
+        <span className="text-xs text-gray-400">{count}</span>
+      )}
+    </button>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -12,26 +12,21 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from "@/components/ui/progress";
 import type { DiscogsRelease } from "@/lib/discogs";
+import { describeCollectionError } from "@/lib/api-errors";
+import { streamCollection } from "@/lib/collection-stream";
+import { readCache, writeCache } from "@/lib/browser-cache";
+import { fetchWantlist, type WantlistItem } from "@/lib/wantlist";
+import { openInDrawer, type ReleaseTarget } from "@/components/release-drawer";
+
+const FRIEND_CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
 
 interface FriendCompareProps {
   myUsername: string;
   myCollection: DiscogsRelease[];
   isLoading: boolean;
-}
-
-interface WantlistItem {
-  id: number;
-  basic_information: {
-    id: number;
-    master_id: number;
-    title: string;
-    year: number;
-    thumb: string;
-    artists: Array<{ name: string; id: number }>;
-    genres: string[];
-    styles: string[];
-  };
+  onOpenRelease?: (target: ReleaseTarget) => void;
 }
 
 interface TradeOpportunity {
@@ -47,6 +42,12 @@ interface StyleCompatibility {
   biggestDifferences: { style: string; myPercent: number; friendPercent: number }[];
 }
 
+interface LoadProgress {
+  label: string; // what's loading, e.g. "alice's wantlist"
+  loaded: number;
+  total: number;
+}
+
 interface ComparisonResult {
   friendUsername: string;
   friendCollection: DiscogsRelease[];
@@ -167,10 +168,21 @@ function calculateStyleCompatibility(
   return { score, sharedStyles, styleComparison, topOverlaps, biggestDifferences };
 }
 
-function ReleaseCard({ release }: { release: DiscogsRelease }) {
+function ReleaseCard({
+  release,
+  onOpen,
+}: {
+  release: DiscogsRelease;
+  onOpen?: (target: ReleaseTarget) => void;
+}) {
   const info = release.basic_information;
   return (
-    <div className="flex gap-3 p-3 rounded-lg bg-gray-50 hover:bg-gray-100 transition-colors border border-gray-100">
+    <button
+      type="button"
+      onClick={() => onOpen?.({ type: "release", id: info.id, title: info.title, thumb: info.thumb })}
+      disabled={!onOpen}
+      className="w-full text-left flex gap-3 p-3 rounded-lg bg-gray-50 hover:bg-gray-100 transition-colors border border-gray-100 disabled:cursor-default"
+    >
       {info.thumb && (
         <img
           src={info.thumb}
@@ -184,17 +196,24 @@ function ReleaseCard({ release }: { release: DiscogsRelease }) {
           {info.artists?.map((a) => a.name).join(", ")} • {info.year || "N/A"}
         </p>
       </div>
-    </div>
+    </button>
   );
 }
 
-function TradeCard({ opportunity }: { opportunity: TradeOpportunity }) {
+function TradeCard({
+  opportunity,
+  onOpen,
+}: {
+  opportunity: TradeOpportunity;
+  onOpen?: (target: ReleaseTarget) => void;
+}) {
   const info = opportunity.release.basic_information;
   return (
     <a
       href={`https://www.discogs.com/release/${info.id}`}
       target="_blank"
       rel="noopener noreferrer"
+      onClick={openInDrawer(onOpen, { type: "release", id: info.id, title: info.title, thumb: info.thumb })}
       className="block"
     >
       <div className="flex gap-3 p-3 rounded-lg bg-gray-50 hover:bg-gray-100 transition-all hover:scale-[1.02] border border-gray-100">
@@ -248,16 +267,62 @@ function TradeCard({ opportunity }: { opportunity: TradeOpportunity }) {
   );
 }
 
+// Releases in a collection that someone wants, matched by master
+function findTrades(collection: DiscogsRelease[], wants: WantlistItem[]): TradeOpportunity[] {
+  const wantsByMaster = new Map<number, WantlistItem>();
+  for (const want of wants) {
+    const masterId = want.basic_information.master_id;
+    if (masterId && !wantsByMaster.has(masterId)) wantsByMaster.set(masterId, want);
+  }
+
+  return collection
+    .filter((r) => wantsByMaster.has(r.basic_information.master_id))
+    .map((release) => ({
+      release,
+      matchedWant: wantsByMaster.get(release.basic_information.master_id)!,
+    }));
+}
+
+// Style compatibility and albums in common (by master)
+function compareCollections(
+  myCollection: DiscogsRelease[],
+  friendCollection: DiscogsRelease[]
+): Pick<ComparisonResult, "overlap" | "styleCompatibility"> {
+  const myMasterIds = new Set(
+    myCollection.map((r) => r.basic_information.master_id)
+  );
+  const friendMasterIds = new Set(
+    friendCollection.map((r) => r.basic_information.master_id)
+  );
+
+  const overlapMasterIds = new Set(
+    [...myMasterIds].filter((id) => id && friendMasterIds.has(id))
+  );
+
+  return {
+    overlap: myCollection.filter((r) =>
+      overlapMasterIds.has(r.basic_information.master_id)
+    ),
+    styleCompatibility: calculateStyleCompatibility(myCollection, friendCollection),
+  };
+}
+
 export function FriendCompare({
   myUsername,
   myCollection,
   isLoading: myCollectionLoading,
+  onOpenRelease,
 }: FriendCompareProps) {
   const [friendUsername, setFriendUsername] = useState("");
   const [searching, setSearching] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<ComparisonResult | null>(null);
-  
+  const [progress, setProgress] = useState<LoadProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop loading when leaving the tab
+  useEffect(() => () => abortRef.current?.abort(), []);
+
   const handleSearch = async () => {
     if (!friendUsername.trim()) return;
     if (friendUsername.toLowerCase() === myUsername.toLowerCase()) {
@@ -265,96 +330,82 @@ export function FriendCompare({
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
     setSearching(true);
     setError(null);
+    setResult(null);
+    setProgress(null);
 
     try {
-      // Fetch friend's collection
-      const collectionResponse = await fetch(
-        `/api/collection?username=${encodeURIComponent(friendUsername)}`
-      );
+      const friendKey = friendUsername.toLowerCase();
+      const cached = await readCache<DiscogsRelease[]>(myUsername, "friends", friendKey);
+      const friendCollection: DiscogsRelease[] = [];
+
+      if (cached && Date.now() - cached.savedAt < FRIEND_CACHE_TTL) {
+        friendCollection.push(...cached.data);
+      } else {
+        // Stream the friend's collection, updating the comparison as pages
+        // arrive; trades need the whole collection and come after
+        try {
+          for await (const page of streamCollection(friendUsername, { signal })) {
+            friendCollection.push(...page.releases);
+            setProgress({ label: `${friendUsername}'s collection`, loaded: page.loaded, total: page.total });
+            setResult({
+              friendUsername,
+              friendCollection: [...friendCollection],
+              ...compareCollections(myCollection, friendCollection),
+              youCanOffer: [],
+              theyCanOffer: [],
+            });
+          }
+        } catch (err) {
+          if (signal.aborted) throw err;
+          throw new Error(describeCollectionError(err, friendUsername));
+        }
 
-      if (!collectionResponse.ok) {
-        throw new Error("Failed to fetch friend's collection");
+        void writeCache(myUsername, "friends", friendKey, friendCollection);
       }
 
-      const collectionData = await collectionResponse.json();
-      const friendCollection: DiscogsRelease[] = collectionData.releases || [];
-
       if (friendCollection.length === 0) {
         throw new Error("Friend's collection is empty or private");
       }
 
-      // Calculate style-based compatibility
-      const styleCompatibility = calculateStyleCompatibility(myCollection, friendCollection);
-
-      // Calculate albums in common (for display purposes)
-      const myMasterIds = new Set(
-        myCollection.map((r) => r.basic_information.master_id)
-      );
-      const friendMasterIds = new Set(
-        friendCollection.map((r) => r.basic_information.master_id)
-      );
-
-      const overlapMasterIds = new Set(
-        [...myMasterIds].filter((id) => id && friendMasterIds.has(id))
-      );
-
-      const overlap = myCollection.filter((r) =>
-        overlapMasterIds.has(r.basic_information.master_id)
-      );
+      const { overlap, styleCompatibility } = compareCollections(myCollection, friendCollection);
 
       // Fetch trade opportunities
       let youCanOffer: TradeOpportunity[] = [];
       let theyCanOffer: TradeOpportunity[] = [];
 
       try {
-        // Fetch friend's wantlist
-        const friendWantlistResponse = await fetch(
-          `/api/wantlist/${encodeURIComponent(friendUsername)}`
-        );
-
-        if (friendWantlistResponse.ok) {
-          const friendWantlistData = await friendWantlistResponse.json();
-          const friendWants: WantlistItem[] = friendWantlistData.wants || [];
-
-          const friendWantMasterIds = new Set(
-            friendWants.map((w) => w.basic_information.master_id).filter(Boolean)
-          );
-
-          youCanOffer = myCollection
-            .filter((r) => friendWantMasterIds.has(r.basic_information.master_id))
-            .map((release) => ({
-              release,
-              matchedWant: friendWants.find(
-                (w) => w.basic_information.master_id === release.basic_information.master_id
-              )!,
-            }));
+        const cachedWants = await readCache<WantlistItem[]>(myUsername, "wantlists", friendKey);
+        let friendWants: WantlistItem[];
+
+        if (cachedWants && Date.now() - cachedWants.savedAt < FRIEND_CACHE_TTL) {
+          friendWants = cachedWants.data;
+        } else {
+          friendWants = await fetchWantlist(friendUsername, {
+            signal,
+            onProgress: ({ loaded, total }) =>
+              setProgress({ label: `${friendUsername}'s wantlist`, loaded, total }),
+          });
+          void writeCache(myUsername, "wantlists", friendKey, friendWants);
         }
 
-        // Fetch my wantlist
-        const myWantlistResponse = await fetch(
-          `/api/wantlist/${encodeURIComponent(myUsername)}`
-        );
+        youCanOffer = findTrades(myCollection, friendWants);
 
-        if (myWantlistResponse.ok) {
-          const myWantlistData = await myWantlistResponse.json();
-          const myWants: WantlistItem[] = myWantlistData.wants || [];
-
-          const myWantMasterIds = new Set(
-            myWants.map((w) => w.basic_information.master_id).filter(Boolean)
-          );
-
-          theyCanOffer = friendCollection
-            .filter((r) => myWantMasterIds.has(r.basic_information.master_id))
-            .map((release) => ({
-              release,
-              matchedWant: myWants.find(
-                (w) => w.basic_information.master_id === release.basic_information.master_id
-              )!,
-            }));
-        }
+        // Your own wantlist changes as you use the app, so it isn't cached
+        const myWants = await fetchWantlist(myUsername, {
+          signal,
+          onProgress: ({ loaded, total }) =>
+            setProgress({ label: "your wantlist", loaded, total }),
+        });
+
+        theyCanOffer = findTrades(friendCollection, myWants);
       } catch (tradeErr) {
+        if (signal.aborted) throw tradeErr;
         console.error("Failed to fetch trade data:", tradeErr);
         // Continue without trade data
       }
@@ -368,14 +419,21 @@ export function FriendCompare({
         theyCanOffer,
       });
     } catch (err) {
-      setError(
-        err instanceof Error ? err.message : "Failed to compare collections"
-      );
+      setResult(null);
+      if (!signal.aborted) {
+        setError(
+          err instanceof Error ? err.message : "Failed to compare collections"
+        );
+      }
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setSearching(false);
+      setProgress(null);
     }
   };
 
+  const handleCancel = () => abortRef.current?.abort();
+
   if (myCollectionLoading) {
     return (
       <Card className="bg-white border-gray-200">
@@ -460,8 +518,29 @@ export function FriendCompare({
                 "Compare & Find Trades"
               )}
             </Button>
+            {searching && (
+              <Button
+                variant="outline"
+                onClick={handleCancel}
+                className="border-gray-200 text-gray-600"
+              >
+                Cancel
+              </Button>
+            )}
           </div>
 
+          {searching && progress && (
+            <div className="mt-3 space-y-1.5 max-w-md">
+              <p className="text-sm text-gray-500">
+                Loading {progress.label}: {progress.loaded} of {progress.total}...
+              </p>
+              <Progress
+                value={progress.total ? (progress.loaded / progress.total) * 100 : 0}
+                className="h-1.5"
+              />
+            </div>
+          )}
+
           {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
         </CardContent>
       </Card>
@@ -661,6 +740,7 @@ export function FriendCompare({
                         <TradeCard
                           key={opportunity.release.instance_id}
                           opportunity={opportunity}
+                          onOpen={onOpenRelease}
                         />
                       ))}
                     </div>
@@ -694,6 +774,7 @@ export function FriendCompare({
                         <TradeCard
                           key={opportunity.release.instance_id}
                           opportunity={opportunity}
+                          onOpen={onOpenRelease}
                         />
                       ))}
                     </div>
@@ -718,7 +799,7 @@ export function FriendCompare({
               ) : (
                 <div className="grid sm:grid-cols-2 gap-3 max-h-[400px] overflow-y-auto">
                   {result.overlap.slice(0, 50).map((release) => (
-                    <ReleaseCard key={release.instance_id} release={release} />
+                    <ReleaseCard key={release.instance_id} release={release} onOpen={onOpenRelease} />
                   ))}
                 </div>
               )}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+import type { DiscogsCollectionField, DiscogsFolder, DiscogsRelease } from "@/lib/discogs";
+import { parseInstanceFields, resolveFieldIds } from "@/lib/collection-fields";
+import type { CollectionActions, CollectionWriteStatus } from "@/hooks/use-collection-actions";
+
+interface InstanceControlsProps {
+  release: DiscogsRelease;
+  actions: CollectionActions;
+  folders: DiscogsFolder[];
+  fields?: DiscogsCollectionField[];
+}
+
+/**
+ * Inline rating, folder, notes and remove controls for a collection item
+ */
+export function InstanceControls({ release, actions, folders, fields }: InstanceControlsProps) {
+  const [editingNotes, setEditingNotes] = useState(false);
+  const [draft, setDraft] = useState("");
+  const status = actions.getInstanceStatus(release.instance_id);
+  const busy = status === "loading";
+  const notes = parseInstanceFields(release, fields).notes || "";
+  // Folder 0 ("All") is virtual, items can't be moved into it
+  const targetFolders = folders.filter((f) => f.id !== 0);
+
+  const saveNotes = async () => {
+    const saved = await actions.updateInstance(release, {
+      field: { id: resolveFieldIds(fields).notes, value: draft },
+    });
+    if (saved) setEditingNotes(false);
+  };
+
+  const remove = () => {
+    const title = release.basic_information.title;
+    if (window.confirm(`Remove "${title}" from your collection?`)) {
+      actions.removeInstance(release);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3 flex-wrap">
+        <StarRating
+          value={release.rating}
+          disabled={busy}
+          onChange={(rating) => actions.updateInstance(release, { rating })}
+        />
+
+        {targetFolders.length > 0 && release.folder_id !== undefined && (
+          <select
+            value={release.folder_id}
+            disabled={busy}
+            onChange={(e) => actions.updateInstance(release, { folderId: Number(e.target.value) })}
+            className="text-xs rounded-md border border-gray-200 bg-white px-1.5 py-1 text-gray-700"
+            title="Move to folder"
+          >
+            {targetFolders.map((folder) => (
+              <option key={folder.id} value={folder.id}>
+                {folder.name}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <button
+          onClick={() => {
+            setDraft(notes);
+            setEditingNotes(!editingNotes);
+          }}
+          disabled={busy}
+          className="text-xs font-medium text-gray-500 hover:text-gray-900"
+        >
+          {notes ? "Edit notes" : "Add notes"}
+        </button>
+
+        <button
+          onClick={remove}
+          disabled={busy}
+          className="text-xs font-medium text-gray-400 hover:text-red-600"
+        >
+          Remove
+        </button>
+
+        {busy && <span className="text-xs text-gray-400">Saving...</span>}
+        {status === "error" && <span className="text-xs text-red-600">Failed to save</span>}
+      </div>
+
+      {!editingNotes && notes && (
+        <p className="text-xs text-gray-500 italic line-clamp-2">{notes}</p>
+      )}
+
+      {editingNotes && (
+        <div className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={3}
+            className="w-full text-sm rounded-md border border-gray-200 bg-white p-2 text-gray-900"
+            placeholder="Notes"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={saveNotes}
+              disabled={busy}
+              className="px-2.5 py-1 rounded-md text-xs font-medium bg-gray-900 text-white hover:bg-gray-800"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => setEditingNotes(false)}
+              className="px-2.5 py-1 rounded-md text-xs font-medium text-gray-600 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function StarRating({
+  value,
+  disabled,
+  onChange,
+}: {
+  value: number;
+  disabled?: boolean;
+  onChange: (rating: number) => void;
+}) {
+  return (
+    <div className="flex items-center" title={value ? `Rated ${value}/5` : "Not rated"}>
+      {[1, 2, 3, 4, 5].map((star) => (
+        <button
+          key={star}
+          disabled={disabled}
+          // Clicking the current rating clears it
+          onClick={() => onChange(star === value ? 0 : star)}
+          className={`text-base leading-none px-0.5 transition-colors ${
+            star <= value ? "text-amber-500" : "text-gray-300 hover:text-amber-300"
+          }`}
+          aria-label={`Rate ${star} star${star > 1 ? "s" : ""}`}
+        >
+          ★
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function AddToCollectionButton({
+  status,
+  onClick,
+}: {
+  status: CollectionWriteStatus;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={(e) => {
+        e.preventDefault();
+        if (status === "idle" || status === "error") {
+          onClick();
+        }
+      }}
+      disabled={status === "loading" || status === "added"}
+      className={`p-2 rounded-md transition-all ${
+        status === "added"
+          ? "bg-green-100 text-green-600 cursor-default"
+          : status === "loading"
+          ? "bg-gray-100 text-gray-400 cursor-wait"
+          : status === "error"
+          ? "bg-red-100 text-red-600 hover:bg-red-200"
+          : "bg-gray-100 text-gray-500 hover:bg-amber-100 hover:text-amber-600"
+      }`}
+      title={
+        status === "added"
+          ? "Added to collection"
+          : status === "loading"
+          ? "Adding..."
+          : status === "error"
+          ? "Failed - click to retry"
+          : "Add to collection"
+      }
+    >
+      {status === "added" ? (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+        </svg>
+      ) : (
+        <svg
+          className={`w-5 h-5 ${status === "loading" ? "animate-spin" : ""}`}
+          viewBox="0 0 24 24"
+          fill="currentColor"
+        >
+          <circle cx="12" cy="12" r="10" fill="none" stroke="currentColor" strokeWidth="1.5" />
+          <circle cx="12" cy="12" r="3" />
+        </svg>
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,356 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { WantlistButton } from "@/components/wantlist-button";
+import { useWantlist } from "@/hooks/use-wantlist";
+import type { DiscogsLabelRef, DiscogsLabelRelease, DiscogsRelease } from "@/lib/discogs";
+import {
+  buildLabelCatalog,
+  getCollectionLabels,
+  type CatalogSeries,
+} from "@/lib/catalog";
+
+interface LabelCatalogProps {
+  releases: DiscogsRelease[];
+  isLoading: boolean;
+}
+
+interface LabelData {
+  label: {
+    id: number;
+    name: string;
+    profile?: string;
+    parent_label?: DiscogsLabelRef;
+    sublabels: DiscogsLabelRef[];
+  };
+  releases: DiscogsLabelRelease[];
+  truncated: boolean;
+}
+
+const LABEL_LIST_LIMIT = 30;
+
+export function LabelCatalog({ releases, isLoading }: LabelCatalogProps) {
+  const [query, setQuery] = useState("");
+  const [selectedLabel, setSelectedLabel] = useState<{ id: number; name: string } | null>(null);
+  const [data, setData] = useState<LabelData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showUnstarted, setShowUnstarted] = useState(false);
+  const wantlist = useWantlist();
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop loading when leaving the tab
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const labels = useMemo(() => getCollectionLabels(releases), [releases]);
+
+  const visibleLabels = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const matching = q ? labels.filter((l) => l.name.toLowerCase().includes(q)) : labels;
+    return matching.slice(0, LABEL_LIST_LIMIT);
+  }, [labels, query]);
+
+  const catalog = useMemo(
+    () => (data ? buildLabelCatalog(data.label.id, data.releases, releases) : null),
+    [data, releases]
+  );
+
+  const selectLabel = async (label: { id: number; name: string }) => {
+    // A slower response for the previous label must not overwrite this one
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
+    setSelectedLabel(label);
+    setData(null);
+    setError(null);
+    setShowUnstarted(false);
+    setLoading(true);
+
+    try {
+      const response = await fetch(`/api/labels/${label.id}`, { signal });
+      if (!response.ok) {
+        throw new Error("Failed to fetch label");
+      }
+      setData(await response.json());
+    } catch (err) {
+      if (!signal.aborted) {
+        setError(err instanceof Error ? err.message : "Failed to fetch label");
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card className="bg-white border-gray-200">
+        <CardHeader>
+          <CardTitle className="text-gray-900">Label Catalogues</CardTitle>
+          <CardDescription className="text-gray-500">Loading your collection first...</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Skeleton className="h-10 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const started = catalog?.series.filter((s) => s.owned > 0) || [];
+  const unstarted = catalog?.series.filter((s) => s.owned === 0) || [];
+
+  return (
+    <div className="space-y-6">
+      {/* Label picker */}
+      <Card className="bg-white border-gray-200">
+        <CardHeader>
+          <CardTitle className="text-gray-900">Label Catalogues</CardTitle>
+          <CardDescription className="text-gray-500">
+            Pick a label from your collection to find the gaps in its catalog numbers
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input
+            placeholder="Filter labels"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="max-w-xs bg-white border-gray-200 text-gray-900 placeholder:text-gray-400"
+          />
+          <div className="flex flex-wrap gap-2">
+            {visibleLabels.map((label) => (
+              <button
+                key={label.id}
+                onClick={() => selectLabel(label)}
+                className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                  selectedLabel?.id === label.id
+                    ? "bg-gray-900 text-white border-gray-900"
+                    : "bg-white text-gray-700 border-gray-200 hover:bg-gray-100"
+                }`}
+              >
+                {label.name} <span className="opacity-60">({label.count})</span>
+              </button>
+            ))}
+            {visibleLabels.length === 0 && (
+              <p className="text-sm text-gray-500">No matching labels</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="py-4">
+            <p className="text-red-600">{error}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading && (
+        <Card className="bg-white border-gray-200">
+          <CardContent className="pt-6 space-y-3">
+            {[...Array(4)].map((_, i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {data && catalog && (
+        <>
+          {/* Label overview */}
+          <Card className="bg-white border-gray-200">
+            <CardHeader>
+              <CardTitle className="text-gray-900">{data.label.name}</CardTitle>
+              <CardDescription className="text-gray-500">
+                {data.releases.length} releases in {catalog.series.length} catalog series
+                {data.truncated && " (truncated to the first 1,000 releases)"}
+              </CardDescription>
+            </CardHeader>
+            {(data.label.parent_label || data.label.sublabels.length > 0) && (
+              <CardContent className="space-y-3">
+                {data.label.parent_label && (
+                  <p className="text-sm text-gray-600">
+                    Part of{" "}
+                    <button
+                      onClick={() => selectLabel(data.label.parent_label!)}
+                      className="font-medium text-amber-600 hover:underline"
+                    >
+                      {data.label.parent_label.name}
+                    </button>
+                  </p>
+                )}
+                {data.label.sublabels.length > 0 && (
+                  <div>
+                    <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+                      Sublabels
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {data.label.sublabels.map((sublabel) => (
+                        <button
+                          key={sublabel.id}
+                          onClick={() => selectLabel(sublabel)}
+                          className="px-2.5 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+                        >
+                          {sublabel.name}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            )}
+          </Card>
+
+          {/* Series */}
+          {started.length === 0 && (
+            <p className="text-gray-500 text-center py-4 text-sm">
+              None of your records on this label have a recognizable catalog number
+            </p>
+          )}
+          {started.map((series) => (
+            <SeriesCard key={series.series} series={series} wantlist={wantlist} />
+          ))}
+
+          {unstarted.length > 0 && (
+            <div className="text-center">
+              <button
+                onClick={() => setShowUnstarted(!showUnstarted)}
+                className="text-sm font-medium text-gray-600 hover:text-gray-900"
+              >
+                {showUnstarted ? "Hide" : "Show"} {unstarted.length} series you haven&apos;t started
+              </button>
+            </div>
+          )}
+          {showUnstarted &&
+            unstarted.map((series) => <SeriesCard key={series.series} series={series} wantlist={wantlist} />)}
+        </>
+      )}
+    </div>
+  );
+}
+
+function SeriesCard({
+  series,
+  wantlist,
+}: {
+  series: CatalogSeries;
+  wantlist: ReturnType<typeof useWantlist>;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const { getStatus, addToWantlist } = wantlist;
+  const missing = series.entries.filter((e) => !e.owned);
+
+  return (
+    <Card className="bg-white border-gray-200">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-gray-900">{series.series}</CardTitle>
+            <CardDescription className="text-gray-500">
+              {series.entries[0]?.catno} – {series.entries[series.entries.length - 1]?.catno}
+              {" • "}
+              {series.owned} of {series.total} owned
+              {!series.complete && " (known numbers only)"}
+            </CardDescription>
+          </div>
+          <p className="text-2xl font-bold text-amber-600">{series.percent}%</p>
+        </div>
+        <Progress value={series.percent} className="mt-3" />
+      </CardHeader>
+      {series.owned > 0 && missing.length > 0 && (
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap gap-1.5">
+            {missing.slice(0, expanded ? undefined : 24).map((entry) => (
+              <span
+                key={entry.number}
+                className={`px-2 py-0.5 rounded text-xs font-mono ${
+                  entry.releases.length > 0
+                    ? "bg-red-50 text-red-600 border border-red-100"
+                    : "bg-gray-50 text-gray-400 border border-gray-100"
+                }`}
+                title={
+                  entry.releases.length > 0
+                    ? entry.releases.map((r) => `${r.artist} - ${r.title}`).join("\n")
+                    : "Not listed on Discogs"
+                }
+              >
+                {entry.catno}
+              </span>
+            ))}
+            {!expanded && missing.length > 24 && (
+              <span className="px-2 py-0.5 text-xs text-gray-500">+{missing.length - 24} more</span>
+            )}
+          </div>
+
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="text-sm font-medium text-gray-600 hover:text-gray-900"
+          >
+            {expanded ? "Hide missing releases" : "Show missing releases"}
+          </button>
+
+          {expanded && (
+            <div className="grid sm:grid-cols-2 gap-3 max-h-[500px] overflow-y-auto">
+              {missing
+                .filter((entry) => entry.releases.length > 0)
+                .map((entry) => {
+                  const release = entry.releases[0];
+                  return (
+                    <div
+                      key={entry.number}
+                      className="flex items-center gap-3 p-3 rounded-lg bg-gray-50 border border-gray-100"
+                    >
+                      <a
+                        href={`https://www.discogs.com/release/${release.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-3 flex-1 min-w-0"
+                      >
+                        {release.thumb ? (
+                          <img
+                            src={release.thumb}
+                            alt={release.title}
+                            className="w-10 h-10 rounded object-cover flex-shrink-0"
+                          />
+                        ) : (
+                          <div className="w-10 h-10 rounded bg-gray-100 flex-shrink-0" />
+                        )}
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm font-medium text-gray-900 truncate">{release.title}</p>
+                          <p className="text-xs text-gray-500 truncate">
+                            {entry.catno} • {release.artist}
+                          </p>
+                        </div>
+                      </a>
+                      <WantlistButton
+                        status={getStatus(release.id)}
+                        onClick={() =>
+                          addToWantlist(release.id, {
+                            notes: `Fills the ${entry.catno} gap in ${series.series}`,
+                          })
+                        }
+                      />
+                    </div>
+                  );
+                })}
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,348 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { WantlistButton } from "@/components/wantlist-button";
+import { useWantlist, type WantlistStatus } from "@/hooks/use-wantlist";
+import type { DiscogsList, DiscogsListItem, DiscogsListSummary, DiscogsRelease } from "@/lib/discogs";
+import {
+  compareList,
+  parseListId,
+  type ListItemStatus,
+  type ListWanted,
+} from "@/lib/lists";
+
+interface ListCompareProps {
+  username: string;
+  releases: DiscogsRelease[];
+  isLoading: boolean;
+}
+
+type StatusFilter = "all" | "owned" | "wanted" | "missing";
+
+const STATUS_STYLES: Record<ListItemStatus, string> = {
+  owned: "bg-green-100 text-green-700",
+  wanted: "bg-amber-100 text-amber-700",
+  missing: "bg-red-100 text-red-700",
+  other: "bg-gray-100 text-gray-500",
+};
+
+const itemKey = (item: DiscogsListItem) => `${item.type}-${item.id}`;
+
+export function ListCompare({ username, releases, isLoading }: ListCompareProps) {
+  const [lists, setLists] = useState<DiscogsListSummary[]>([]);
+  const [listInput, setListInput] = useState("");
+  const [list, setList] = useState<DiscogsList | null>(null);
+  const [wanted, setWanted] = useState<ListWanted | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<StatusFilter>("missing");
+  // Wantlist status per list entry (masters resolve to their main release)
+  const [itemStatus, setItemStatus] = useState<Record<string, WantlistStatus>>({});
+  const [bulkProgress, setBulkProgress] = useState<{ done: number; total: number } | null>(null);
+  const stopRef = useRef(false);
+  const { addToWantlist } = useWantlist();
+
+  // Load the user's own lists once
+  useEffect(() => {
+    fetch(`/api/lists?username=${encodeURIComponent(username)}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => data && setLists(data.lists || []))
+      .catch((err) => console.error("Failed to fetch lists:", err));
+  }, [username]);
+
+  const comparison = useMemo(() => {
+    if (!list) return null;
+    const result = compareList(list.items, releases, wanted);
+    // Entries added this session count as wanted
+    result.entries.forEach((entry) => {
+      if (entry.status === "missing" && itemStatus[itemKey(entry.item)] === "added") {
+        entry.status = "wanted";
+        result.counts.missing--;
+        result.counts.wanted++;
+      }
+    });
+    return result;
+  }, [list, releases, wanted, itemStatus]);
+
+  const loadList = async (listId: number) => {
+    setError(null);
+    setLoading(true);
+    setList(null);
+    setItemStatus({});
+
+    try {
+      const response = await fetch(`/api/lists/${listId}`);
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to fetch list");
+      }
+      const data = await response.json();
+      setList(data.list);
+      setWanted(data.wanted);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch list");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const listId = parseListId(listInput);
+    if (!listId) {
+      setError("Enter a list ID or a Discogs list URL");
+      return;
+    }
+    loadList(listId);
+  };
+
+  const wantItem = async (item: DiscogsListItem) => {
+    const key = itemKey(item);
+    setItemStatus((prev) => ({ ...prev, [key]: "loading" }));
+
+    try {
+      let releaseId = item.id;
+      if (item.type === "master") {
+        const response = await fetch(`/api/masters/${item.id}`);
+        if (!response.ok) throw new Error("Failed to resolve master");
+        releaseId = (await response.json()).main_release;
+      }
+
+      const added = await addToWantlist(releaseId, {
+        notes: list ? `From the list "${list.name}"` : undefined,
+      });
+      setItemStatus((prev) => ({ ...prev, [key]: added ? "added" : "error" }));
+    } catch (err) {
+      console.error("Failed to add list entry to wantlist:", err);
+      setItemStatus((prev) => ({ ...prev, [key]: "error" }));
+    }
+  };
+
+  const addAllMissing = async () => {
+    if (!comparison) return;
+    const missing = comparison.entries.filter((e) => e.status === "missing");
+    stopRef.current = false;
+    setBulkProgress({ done: 0, total: missing.length });
+
+    for (let i = 0; i < missing.length; i++) {
+      if (stopRef.current) break;
+      await wantItem(missing[i].item);
+      setBulkProgress({ done: i + 1, total: missing.length });
+    }
+
+    setBulkProgress(null);
+  };
+
+  if (isLoading) {
+    return (
+      <Card className="bg-white border-gray-200">
+        <CardHeader>
+          <CardTitle className="text-gray-900">Lists</CardTitle>
+          <CardDescription className="text-gray-500">Loading your collection first...</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Skeleton className="h-10 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const entries =
+    comparison?.entries.filter((e) => filter === "all" || e.status === filter) || [];
+
+  return (
+    <div className="space-y-6">
+      {/* List picker */}
+      <Card className="bg-white border-gray-200">
+        <CardHeader>
+          <CardTitle className="text-gray-900">Lists</CardTitle>
+          <CardDescription className="text-gray-500">
+            Check a Discogs list against your collection and wantlist
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleSubmit} className="flex gap-3">
+            <Input
+              placeholder="List ID or URL"
+              value={listInput}
+              onChange={(e) => setListInput(e.target.value)}
+              className="max-w-sm bg-white border-gray-200 text-gray-900 placeholder:text-gray-400"
+            />
+            <Button
+              type="submit"
+              disabled={loading || !listInput.trim()}
+              className="bg-gray-900 hover:bg-gray-800 text-white"
+            >
+              Load
+            </Button>
+          </form>
+          {lists.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+                Your lists
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {lists.map((l) => (
+                  <button
+                    key={l.id}
+                    onClick={() => loadList(l.id)}
+                    className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                      list?.id === l.id
+                        ? "bg-gray-900 text-white border-gray-900"
+                        : "bg-white text-gray-700 border-gray-200 hover:bg-gray-100"
+                    }`}
+                  >
+                    {l.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="py-4">
+            <p className="text-red-600">{error}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading && (
+        <Card className="bg-white border-gray-200">
+          <CardContent className="pt-6 space-y-3">
+            {[...Array(4)].map((_, i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {list && comparison && (
+        <Card className="bg-white border-gray-200">
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <CardTitle className="text-gray-900">{list.name}</CardTitle>
+                <CardDescription className="text-gray-500">
+                  By {list.user.username} • {list.items.length} entries
+                </CardDescription>
+              </div>
+              {bulkProgress ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => (stopRef.current = true)}
+                  className="border-gray-200 text-gray-700 hover:bg-gray-100 flex-shrink-0"
+                >
+                  Stop ({bulkProgress.done}/{bulkProgress.total})
+                </Button>
+              ) : (
+                comparison.counts.missing > 0 && (
+                  <Button
+                    size="sm"
+                    onClick={addAllMissing}
+                    className="bg-amber-500 hover:bg-amber-600 text-white flex-shrink-0"
+                  >
+                    Add {comparison.counts.missing} missing to wantlist
+                  </Button>
+                )
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="text-center p-3 rounded-lg bg-green-50 border border-green-100">
+                <p className="text-2xl font-bold text-green-600">{comparison.counts.owned}</p>
+                <p className="text-xs text-gray-500">Owned</p>
+              </div>
+              <div className="text-center p-3 rounded-lg bg-amber-50 border border-amber-100">
+                <p className="text-2xl font-bold text-amber-600">
+                  {wanted || Object.keys(itemStatus).length > 0 ? comparison.counts.wanted : "–"}
+                </p>
+                <p className="text-xs text-gray-500">Wanted</p>
+              </div>
+              <div className="text-center p-3 rounded-lg bg-red-50 border border-red-100">
+                <p className="text-2xl font-bold text-red-600">{comparison.counts.missing}</p>
+                <p className="text-xs text-gray-500">Missing</p>
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              {(["missing", "wanted", "owned", "all"] as const).map((f) => (
+                <button
+                  key={f}
+                  onClick={() => setFilter(f)}
+                  className={`px-3 py-1 rounded-md text-sm font-medium capitalize transition-colors ${
+                    filter === f
+                      ? "bg-gray-900 text-white"
+                      : "text-gray-600 hover:bg-gray-100"
+                  }`}
+                >
+                  {f}
+                </button>
+              ))}
+            </div>
+
+            {entries.length === 0 ? (
+              <p className="text-gray-500 text-center py-8 text-sm">No entries</p>
+            ) : (
+              <div className="space-y-2 max-h-[600px] overflow-y-auto">
+                {entries.map(({ item, status }) => (
+                  <div
+                    key={itemKey(item)}
+                    className="flex items-center gap-3 p-3 rounded-lg bg-gray-50 border border-gray-100"
+                  >
+                    <a
+                      href={item.uri}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-3 flex-1 min-w-0"
+                    >
+                      {item.image_url ? (
+                        <img
+                          src={item.image_url}
+                          alt={item.display_title}
+                          className="w-12 h-12 rounded object-cover flex-shrink-0"
+                        />
+                      ) : (
+                        <div className="w-12 h-12 rounded bg-gray-100 flex-shrink-0" />
+                      )}
+                      <div className="min-w-0 flex-1">
+                        <p className="font-medium text-gray-900 truncate">{item.display_title}</p>
+                        {item.comment && (
+                          <p className="text-sm text-gray-500 truncate">{item.comment}</p>
+                        )}
+                      </div>
+                    </a>
+                    <Badge className={`capitalize flex-shrink-0 ${STATUS_STYLES[status]}`}>
+                      {status === "other" ? item.type : status}
+                    </Badge>
+                    {status === "missing" && (
+                      <WantlistButton
+                        status={itemStatus[itemKey(item)] || "idle"}
+                        onClick={() => wantItem(item)}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,337 @@
+"use client";
+
+import { useCallback, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { DiscogsCollectionField, DiscogsFolder, DiscogsRelease } from "@/lib/discogs";
+import {
+  classifyPressing,
+  type MasterPressingSummary,
+  type PressingClass,
+  type PressingClassification,
+  type PressingVersion,
+} from "@/lib/pressings";
+import { InstanceControls } from "@/components/instance-controls";
+import type { CollectionActions } from "@/hooks/use-collection-actions";
+import { openInDrawer, type ReleaseTarget } from "@/components/release-drawer";
+
+interface PressingsCardProps {
+  releases: DiscogsRelease[];
+  oddities: { testPressings: number; promos: number; limited: number };
+  fields?: DiscogsCollectionField[];
+  folders?: DiscogsFolder[];
+  collectionActions?: CollectionActions;
+  onOpenRelease?: (target: ReleaseTarget) => void; // otherwise rows link to Discogs
+}
+
+// Only what classification needs: each master's earliest pressing and the
+// owned versions, so the cache stays small for collections of thousands
+interface PressingsCache {
+  masters: Record<number, { earliest: PressingVersion | null; timestamp: number }>;
+  versions: Record<number, PressingVersion>; // owned versions, by release id
+}
+
+const CACHE_KEY = "deepcogs_pressings";
+const LEGACY_CACHE_KEY = "deepcogs_master_pressings"; // held every version of every master
+const CACHE_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days, versions rarely change
+
+const emptyCache = (): PressingsCache => ({ masters: {}, versions: {} });
+
+function loadPressingsCache(): PressingsCache {
+  try {
+    localStorage.removeItem(LEGACY_CACHE_KEY);
+    const cached = localStorage.getItem(CACHE_KEY);
+    if (!cached) return emptyCache();
+
+    const stored: PressingsCache = JSON.parse(cached);
+    const masters: PressingsCache["masters"] = {};
+    Object.entries(stored.masters).forEach(([masterId, entry]) => {
+      if (Date.now() - entry.timestamp < CACHE_TTL) {
+        masters[Number(masterId)] = entry;
+      }
+    });
+    return { masters, versions: stored.versions };
+  } catch {
+    return emptyCache();
+  }
+}
+
+function addSummary(cache: PressingsCache, summary: MasterPressingSummary): PressingsCache {
+  const versions = { ...cache.versions };
+  summary.owned.forEach((version) => (versions[version.id] = version));
+  return {
+    masters: {
+      ...cache.masters,
+      [summary.masterId]: { earliest: summary.earliest, timestamp: Date.now() },
+    },
+    versions,
+  };
+}
+
+function saveSummaryToCache(summary: MasterPressingSummary): void {
+  try {
+    const cached = localStorage.getItem(CACHE_KEY);
+    const stored: PressingsCache = cached ? JSON.parse(cached) : emptyCache();
+    localStorage.setItem(CACHE_KEY, JSON.stringify(addSummary(stored, summary)));
+  } catch {
+    // localStorage might be full or disabled
+  }
+}
+
+const CATEGORIES: Array<{
+  id: PressingClass;
+  label: string;
+  color: string;
+}> = [
+  { id: "original", label: "Originals", color: "green" },
+  { id: "early", label: "Early Pressings", color: "teal" },
+  { id: "reissue", label: "Later Reissues", color: "red" },
+  { id: "unknown", label: "Unknown", color: "gray" },
+];
+
+// Static class names so Tailwind picks them up
+const TILE_STYLES: Record<string, string> = {
+  green: "bg-green-50 border-green-100 text-green-600",
+  teal: "bg-teal-50 border-teal-100 text-teal-600",
+  red: "bg-red-50 border-red-100 text-red-600",
+  gray: "bg-gray-50 border-gray-100 text-gray-500",
+};
+
+export function PressingsCard({
+  releases,
+  oddities,
+  fields,
+  folders = [],
+  collectionActions,
+  onOpenRelease,
+}: PressingsCardProps) {
+  // Only rendered once the collection has loaded client-side, so reading
+  // localStorage in the initializer is safe
+  const [checked, setChecked] = useState<PressingsCache>(loadPressingsCache);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [selected, setSelected] = useState<PressingClass | null>(null);
+  const stopRef = useRef(false);
+
+  const classified = useMemo(() => {
+    return releases.map((release) => {
+      const info = release.basic_information;
+      const master = info.master_id ? checked.masters[info.master_id] : undefined;
+      const version = checked.versions[info.id];
+      const summary: MasterPressingSummary | undefined = master && {
+        masterId: info.master_id!,
+        earliest: master.earliest,
+        owned: version ? [version] : [],
+      };
+      // Releases whose master hasn't been checked yet stay "unknown"
+      const result = classifyPressing(release, summary);
+      const category: PressingClass =
+        info.master_id && !summary ? "unknown" : result.classification;
+      return { release, result, category };
+    });
+  }, [releases, checked]);
+
+  const counts = useMemo(() => {
+    const totals: Record<PressingClass, number> = {
+      original: 0,
+      early: 0,
+      reissue: 0,
+      unknown: 0,
+    };
+    classified.forEach(({ category }) => totals[category]++);
+    return totals;
+  }, [classified]);
+
+  // Masters not checked yet, or with owned versions added since, with the
+  // owned release ids to look up
+  const uncheckedMasters = useMemo(() => {
+    const owned = new Map<number, number[]>();
+    releases.forEach(({ basic_information: info }) => {
+      if (!info.master_id) return;
+      if (checked.masters[info.master_id] && checked.versions[info.id]) return;
+      owned.set(info.master_id, [...(owned.get(info.master_id) || []), info.id]);
+    });
+    return Array.from(owned, ([masterId, releaseIds]) => ({ masterId, releaseIds }));
+  }, [releases, checked]);
+
+  const analyze = useCallback(async () => {
+    stopRef.current = false;
+    setAnalyzing(true);
+    setProgress({ done: 0, total: uncheckedMasters.length });
+
+    for (let i = 0; i < uncheckedMasters.length; i++) {
+      if (stopRef.current) break;
+
+      const { masterId, releaseIds } = uncheckedMasters[i];
+      try {
+        const response = await fetch(
+          `/api/masters/${masterId}/versions?owned=${releaseIds.join(",")}`
+        );
+        if (response.ok) {
+          const summary: MasterPressingSummary = await response.json();
+          saveSummaryToCache(summary);
+          setChecked((prev) => addSummary(prev, summary));
+        }
+      } catch (err) {
+        console.error(`Failed to fetch versions for master ${masterId}:`, err);
+      }
+
+      setProgress({ done: i + 1, total: uncheckedMasters.length });
+    }
+
+    setAnalyzing(false);
+  }, [uncheckedMasters]);
+
+  const drillDown = selected
+    ? classified.filter(({ category }) => category === selected)
+    : [];
+
+  return (
+    <Card className="bg-white border-gray-200">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-gray-900">Oddities & Pressings</CardTitle>
+            <CardDescription className="text-gray-500">
+              Rare formats, and each record compared to the first pressing of its master
+            </CardDescription>
+          </div>
+          {analyzing ? (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => (stopRef.current = true)}
+              className="border-gray-200 text-gray-700 hover:bg-gray-100 flex-shrink-0"
+            >
+              Stop ({progress.done}/{progress.total})
+            </Button>
+          ) : (
+            uncheckedMasters.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={analyze}
+                className="border-gray-200 text-gray-700 hover:bg-gray-100 flex-shrink-0"
+              >
+                Check {uncheckedMasters.length} masters
+              </Button>
+            )
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-3 gap-3">
+          <div className="text-center p-3 rounded-lg bg-purple-50 border border-purple-100">
+            <p className="text-2xl font-bold text-purple-600">{oddities.testPressings}</p>
+            <p className="text-xs text-gray-500">Test Pressings</p>
+          </div>
+          <div className="text-center p-3 rounded-lg bg-blue-50 border border-blue-100">
+            <p className="text-2xl font-bold text-blue-600">{oddities.promos}</p>
+            <p className="text-xs text-gray-500">Promos</p>
+          </div>
+          <div className="text-center p-3 rounded-lg bg-amber-50 border border-amber-100">
+            <p className="text-2xl font-bold text-amber-600">{oddities.limited}</p>
+            <p className="text-xs text-gray-500">Limited</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-4 gap-3">
+          {CATEGORIES.map((category) => (
+            <button
+              key={category.id}
+              onClick={() => setSelected(selected === category.id ? null : category.id)}
+              className={`text-center p-3 rounded-lg border transition-all ${TILE_STYLES[category.color]} ${
+                selected === category.id ? "ring-2 ring-offset-1 ring-gray-300" : "hover:scale-[1.02]"
+              }`}
+            >
+              <p className="text-2xl font-bold">{counts[category.id]}</p>
+              <p className="text-xs text-gray-500">{category.label}</p>
+            </button>
+          ))}
+        </div>
+
+        {selected && (
+          <div className="space-y-2 max-h-[300px] overflow-y-auto pt-1">
+            {drillDown.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-4">No releases</p>
+            ) : (
+              drillDown.map(({ release, result }) => (
+                <PressingRow
+                  key={release.instance_id}
+                  release={release}
+                  result={result}
+                  onOpen={onOpenRelease}
+                  controls={
+                    collectionActions && (
+                      <InstanceControls
+                        release={release}
+                        actions={collectionActions}
+                        folders={folders}
+                        fields={fields}
+                      />
+                    )
+                  }
+                />
+              ))
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PressingRow({
+  release,
+  result,
+  onOpen,
+  controls,
+}: {
+  release: DiscogsRelease;
+  result: PressingClassification;
+  onOpen?: (target: ReleaseTarget) => void;
+  controls?: React.ReactNode;
+}) {
+  const info = release.basic_information;
+  const describe = (year: number | null, country: string | null) =>
+    [year, country].filter(Boolean).join(" · ") || "Unknown";
+
+  return (
+    <div className="p-2 rounded-lg bg-gray-50 hover:bg-gray-100 border border-gray-100 transition-colors space-y-2">
+      <a
+        href={`https://www.discogs.com/release/${info.id}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        onClick={openInDrawer(onOpen, { type: "release", id: info.id, title: info.title, thumb: info.thumb })}
+        className="flex items-center gap-3"
+      >
+        {info.thumb ? (
+          <img src={info.thumb} alt={info.title} className="w-10 h-10 rounded object-cover flex-shrink-0" />
+        ) : (
+          <div className="w-10 h-10 rounded bg-gray-100 flex-shrink-0" />
+        )}
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-medium text-gray-900 truncate">{info.title}</p>
+          <p className="text-xs text-gray-500 truncate">
+            {info.artists?.map((a) => a.name).join(", ")}
+          </p>
+        </div>
+        <div className="text-right flex-shrink-0">
+          <p className="text-xs text-gray-700">{describe(result.year, result.country)}</p>
+          {result.earliest && (
+            <p className="text-xs text-gray-400">
+              First: {describe(result.earliest.year, result.earliest.country)}
+            </p>
+          )}
+        </div>
+      </a>
+      {controls && <div className="pl-[52px]">{controls}</div>}
+    </div>
+  );
+}
@@ -12,12 +12,21 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { DiscogsRelease } from "@/lib/discogs";
-
-type WantlistStatus = "idle" | "loading" | "added" | "error";
+import { readCache, writeCache } from "@/lib/browser-cache";
+import { toApiRequestError } from "@/lib/api-errors";
+import { WantlistButton } from "@/components/wantlist-button";
+import { WantEditor } from "@/components/want-editor";
+import { useWantlist } from "@/hooks/use-wantlist";
+import { AddToCollectionButton } from "@/components/instance-controls";
+import type { CollectionActions, CollectionWriteStatus } from "@/hooks/use-collection-actions";
+import { openInDrawer, type ReleaseTarget } from "@/components/release-drawer";
 
 interface RecommendationsProps {
+  username: string;
   releases: DiscogsRelease[];
   isLoading: boolean;
+  collectionActions?: CollectionActions;
+  onOpenRelease?: (target: ReleaseTarget) => void;
 }
 
 interface Recommendation {
@@ -46,168 +55,192 @@ interface RecommendationsData {
 
 interface CachedRecommendations {
   data: RecommendationsData;
-  timestamp: number;
   collectionSize: number;
 }
 
-const CACHE_KEY = "deepcogs_recommendations";
+// Only the latest recommendations are kept
+const CACHE_KEY = "latest";
 const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
 
-function loadFromCache(collectionSize: number): RecommendationsData | null {
-  try {
-    const cached = localStorage.getItem(CACHE_KEY);
-    if (!cached) return null;
+async function loadFromCache(
+  username: string,
+  collectionSize: number
+): Promise<RecommendationsData | null> {
+  const cached = await readCache<CachedRecommendations>(username, "recommendations", CACHE_KEY);
+  if (!cached) return null;
+
+  // Invalidate if collection size changed or TTL expired
+  if (cached.data.collectionSize !== collectionSize) return null;
+  if (Date.now() - cached.savedAt > CACHE_TTL) return null;
 
-    const { data, timestamp, collectionSize: cachedSize }: CachedRecommendations = JSON.parse(cached);
+  return cached.data.data;
+}
 
-    // Invalidate if collection size changed or TTL expired
-    if (cachedSize !== collectionSize) return null;
-    if (Date.now() - timestamp > CACHE_TTL) return null;
+function saveToCache(data: RecommendationsData, username: string, collectionSize: number): void {
+  void writeCache<CachedRecommendations>(username, "recommendations", CACHE_KEY, {
+    data,
+    collectionSize,
+  });
+}
 
-    return data;
-  } catch {
-    return null;
+/**
+ * Wantlist note explaining where a recommendation came from
+ */
+function recommendationNote(rec: Recommendation, release: Recommendation["releases"][0]): string {
+  if (release.similarTo) {
+    return `Similar to ${release.similarTo} via ${rec.style}`;
   }
+  return rec.basedOn.length > 0
+    ? `Recommended via ${rec.style}, based on ${rec.basedOn.join(", ")}`
+    : `Recommended via ${rec.style}`;
 }
 
-function saveToCache(data: RecommendationsData, collectionSize: number): void {
-  try {
-    const cached: CachedRecommendations = {
-      data,
-      timestamp: Date.now(),
-      collectionSize,
-    };
-    localStorage.setItem(CACHE_KEY, JSON.stringify(cached));
-  } catch {
-    // localStorage might be full or disabled
+// Main release of each master, resolved once per page load
+const mainReleases = new Map<number, Promise<number>>();
+
+/**
+ * The release to act on for a recommended master. Recommendations are
+ * masters, but the wantlist and collection take releases.
+ */
+function resolveMainRelease(masterId: number): Promise<number> {
+  let resolving = mainReleases.get(masterId);
+  if (!resolving) {
+    resolving = (async () => {
+      const response = await fetch(`/api/masters/${masterId}`);
+      if (!response.ok) throw await toApiRequestError(response);
+      return (await response.json()).main_release as number;
+    })();
+    // Don't keep a failure around, so the next click can try again
+    resolving.catch(() => mainReleases.delete(masterId));
+    mainReleases.set(masterId, resolving);
   }
+  return resolving;
 }
 
+type CardAction = "want" | "collection";
+
 function ReleaseCard({
   release,
-  wantlistStatus,
-  onAddToWantlist,
+  note,
+  wantlist,
+  getCollectionStatus,
+  onAddToCollection,
+  onOpen,
 }: {
   release: Recommendation["releases"][0];
-  wantlistStatus: WantlistStatus;
-  onAddToWantlist: (releaseId: number) => void;
+  note: string;
+  wantlist: ReturnType<typeof useWantlist>;
+  getCollectionStatus?: (releaseId: number) => CollectionWriteStatus;
+  onAddToCollection?: (releaseId: number) => void;
+  onOpen?: (target: ReleaseTarget) => void;
 }) {
+  const [releaseId, setReleaseId] = useState<number | null>(null);
+  const [resolving, setResolving] = useState<CardAction | null>(null);
+  const [resolveFailed, setResolveFailed] = useState<CardAction | null>(null);
+
+  // Run an action on the master's main release, resolving it first
+  const onMainRelease = async (action: CardAction, run: (releaseId: number) => unknown) => {
+    setResolving(action);
+    setResolveFailed(null);
+    try {
+      const id = releaseId ?? (await resolveMainRelease(release.masterId));
+      setReleaseId(id);
+      run(id);
+    } catch (err) {
+      console.error(`Failed to resolve master ${release.masterId}:`, err);
+      setResolveFailed(action);
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  // Status of an action on the main release, including its resolution
+  const actionStatus = (
+    action: CardAction,
+    getStatus: (releaseId: number) => CollectionWriteStatus
+  ): CollectionWriteStatus => {
+    if (resolving === action) return "loading";
+    if (resolveFailed === action) return "error";
+    return releaseId ? getStatus(releaseId) : "idle";
+  };
+
+  const wantlistStatus = actionStatus("want", wantlist.getStatus);
+
   return (
-    <div className="flex gap-3 p-3 rounded-lg bg-gray-50 hover:bg-gray-100 transition-all group border border-gray-100">
-      <a
-        href={`https://www.discogs.com/master/${release.masterId}`}
-        target="_blank"
-        rel="noopener noreferrer"
-        className="flex gap-3 flex-1 min-w-0"
-      >
-        {release.thumb ? (
-          <img
-            src={release.thumb}
-            alt={release.title}
-            className="w-14 h-14 rounded object-cover flex-shrink-0"
-          />
-        ) : (
-          <div className="w-14 h-14 rounded bg-gray-100 flex items-center justify-center flex-shrink-0">
-            <svg
-              className="w-6 h-6 text-gray-400"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <circle cx="12" cy="12" r="10" />
-              <circle cx="12" cy="12" r="3" />
-            </svg>
-          </div>
-        )}
-        <div className="min-w-0 flex-1">
-          <p className="font-medium text-gray-900 truncate group-hover:text-amber-600 transition-colors">
-            {release.title}
-          </p>
-          <p className="text-sm text-gray-500 truncate">
-            {release.artist} {release.year ? `• ${release.year}` : ""}
-          </p>
-          <div className="flex items-center gap-2 mt-1">
-            {release.similarTo ? (
-              <span className="text-xs text-amber-600">
-                Similar to {release.similarTo}
-              </span>
-            ) : (
-              <>
-                <span className="text-xs text-gray-500">
-                  {release.community.have.toLocaleString()} have
-                </span>
-                <span className="text-xs text-gray-500">•</span>
-                <span className="text-xs text-gray-500">
-                  {release.community.want.toLocaleString()} want
+    <div className="p-3 rounded-lg bg-gray-50 hover:bg-gray-100 transition-all group border border-gray-100 space-y-2">
+      <div className="flex gap-3">
+        <a
+          href={`https://www.discogs.com/master/${release.masterId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={openInDrawer(onOpen, { type: "master", id: release.masterId, title: release.title, thumb: release.thumb })}
+          className="flex gap-3 flex-1 min-w-0"
+        >
+          {release.thumb ? (
+            <img
+              src={release.thumb}
+              alt={release.title}
+              className="w-14 h-14 rounded object-cover flex-shrink-0"
+            />
+          ) : (
+            <div className="w-14 h-14 rounded bg-gray-100 flex items-center justify-center flex-shrink-0">
+              <svg
+                className="w-6 h-6 text-gray-400"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <circle cx="12" cy="12" r="10" />
+                <circle cx="12" cy="12" r="3" />
+              </svg>
+            </div>
+          )}
+          <div className="min-w-0 flex-1">
+            <p className="font-medium text-gray-900 truncate group-hover:text-amber-600 transition-colors">
+              {release.title}
+            </p>
+            <p className="text-sm text-gray-500 truncate">
+              {release.artist} {release.year ? `• ${release.year}` : ""}
+            </p>
+            <div className="flex items-center gap-2 mt-1">
+              {release.similarTo ? (
+                <span className="text-xs text-amber-600">
+                  Similar to {release.similarTo}
                 </span>
-              </>
-            )}
+              ) : (
+                <>
+                  <span className="text-xs text-gray-500">
+                    {release.community.have.toLocaleString()} have
+                  </span>
+                  <span className="text-xs text-gray-500">•</span>
+                  <span className="text-xs text-gray-500">
+                    {release.community.want.toLocaleString()} want
+                  </span>
+                </>
+              )}
+            </div>
           </div>
-        </div>
-      </a>
-      <div className="flex items-center gap-2 flex-shrink-0">
-        <button
-          onClick={(e) => {
-            e.preventDefault();
-            if (wantlistStatus === "idle") {
-              onAddToWantlist(release.id);
+        </a>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <WantlistButton
+            status={wantlistStatus}
+            onClick={() =>
+              onMainRelease("want", (id) => wantlist.addToWantlist(id, { notes: note }))
             }
-          }}
-          disabled={wantlistStatus === "loading" || wantlistStatus === "added"}
-          className={`p-2 rounded-md transition-all ${
-            wantlistStatus === "added"
-              ? "bg-green-100 text-green-600 cursor-default"
-              : wantlistStatus === "loading"
-              ? "bg-gray-100 text-gray-400 cursor-wait"
-              : wantlistStatus === "error"
-              ? "bg-red-100 text-red-600 hover:bg-red-200"
-              : "bg-gray-100 text-gray-500 hover:bg-amber-100 hover:text-amber-600"
-          }`}
-          title={
-            wantlistStatus === "added"
-              ? "Added to wantlist"
-              : wantlistStatus === "loading"
-              ? "Adding..."
-              : wantlistStatus === "error"
-              ? "Failed - click to retry"
-              : "Add to wantlist"
-          }
-        >
-          {wantlistStatus === "loading" ? (
-            <svg
-              className="w-5 h-5 animate-spin"
-              fill="none"
-              viewBox="0 0 24 24"
-            >
-              <circle
-                className="opacity-25"
-                cx="12"
-                cy="12"
-                r="10"
-                stroke="currentColor"
-                strokeWidth="4"
-              />
-              <path
-                className="opacity-75"
-                fill="currentColor"
-                d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"
-              />
-            </svg>
-          ) : wantlistStatus === "added" ? (
-            <svg
-              className="w-5 h-5"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M5 13l4 4L19 7"
-              />
-            </svg>
-          ) : (
+          />
+          {onAddToCollection && getCollectionStatus && (
+            <AddToCollectionButton
+              status={actionStatus("collection", getCollectionStatus)}
+              onClick={() => onMainRelease("collection", onAddToCollection)}
+            />
+          )}
+          <a
+            href={`https://www.discogs.com/master/${release.masterId}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="p-2 rounded-md bg-gray-100 text-gray-500 hover:bg-amber-100 hover:text-amber-600 transition-all"
+            title="View on Discogs"
+          >
             <svg
               className="w-5 h-5"
               fill="none"
@@ -218,33 +251,19 @@ function ReleaseCard({
                 strokeLinecap="round"
                 strokeLinejoin="round"
                 strokeWidth={2}
-                d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z"
+                d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
               />
             </svg>
-          )}
-        </button>
-        <a
-          href={`https://www.discogs.com/master/${release.masterId}`}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="p-2 rounded-md bg-gray-100 text-gray-500 hover:bg-amber-100 hover:text-amber-600 transition-all"
-          title="View on Discogs"
-        >
-          <svg
-            className="w-5 h-5"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
-            />
-          </svg>
-        </a>
+          </a>
+        </div>
       </div>
+      {wantlistStatus === "added" && releaseId && (
+        <WantEditor
+          details={wantlist.getDetails(releaseId)}
+          saving={wantlist.isSaving(releaseId)}
+          onSave={(changes) => wantlist.updateWant(releaseId, changes)}
+        />
+      )}
     </div>
   );
 }
@@ -315,41 +334,26 @@ function analyzeCollection(releases: DiscogsRelease[]) {
   return { styles, ownedMasterIds, ownedArtistNames };
 }
 
-export function Recommendations({ releases, isLoading }: RecommendationsProps) {
+export function Recommendations({
+  username,
+  releases,
+  isLoading,
+  collectionActions,
+  onOpenRelease,
+}: RecommendationsProps) {
   const [recommendations, setRecommendations] =
     useState<RecommendationsData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [fromCache, setFromCache] = useState(false);
-  const [wantlistStatus, setWantlistStatus] = useState<Record<number, WantlistStatus>>({});
-
-  const handleAddToWantlist = useCallback(async (releaseId: number) => {
-    setWantlistStatus((prev) => ({ ...prev, [releaseId]: "loading" }));
-
-    try {
-      const response = await fetch("/api/wantlist", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ releaseId }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to add to wantlist");
-      }
-
-      setWantlistStatus((prev) => ({ ...prev, [releaseId]: "added" }));
-    } catch (err) {
-      console.error("Failed to add to wantlist:", err);
-      setWantlistStatus((prev) => ({ ...prev, [releaseId]: "error" }));
-    }
-  }, []);
+  const wantlist = useWantlist();
 
   const fetchRecommendations = useCallback(async (bypassCache = false) => {
     if (releases.length === 0) return;
 
     // Try cache first (unless bypassing)
     if (!bypassCache) {
-      const cached = loadFromCache(releases.length);
+      const cached = await loadFromCache(username, releases.length);
       if (cached) {
         setRecommendations(cached);
         setFromCache(true);
@@ -377,7 +381,7 @@ export function Recommendations({ releases, isLoading }: RecommendationsProps) {
 
       const data = await response.json();
       setRecommendations(data);
-      saveToCache(data, releases.length);
+      saveToCache(data, username, releases.length);
     } catch (err) {
       setError(
         err instanceof Error ? err.message : "Failed to load recommendations"
@@ -385,7 +389,7 @@ export function Recommendations({ releases, isLoading }: RecommendationsProps) {
     } finally {
       setLoading(false);
     }
-  }, [releases]);
+  }, [releases, username]);
 
   // Auto-fetch on mount if we have releases
   useEffect(() => {
@@ -581,8 +585,11 @@ export function Recommendations({ releases, isLoading }: RecommendationsProps) {
                       <ReleaseCard
                         key={release.id}
                         release={release}
-                        wantlistStatus={wantlistStatus[release.id] || "idle"}
-                        onAddToWantlist={handleAddToWantlist}
+                        note={recommendationNote(rec, release)}
+                        wantlist={wantlist}
+                        getCollectionStatus={collectionActions?.getAddStatus}
+                        onAddToCollection={collectionActions?.addToCollection}
+                        onOpen={onOpenRelease}
                       />
                     ))}
                   </div>
@@ -0,0 +1,399 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toApiRequestError } from "@/lib/api-errors";
+import type { ReleaseDetails, ReleaseTrack } from "@/lib/release-details";
+
+/**
+ * What a release card opens: a release, or a master (shown through its
+ * main release). Title and thumb fill the header while details load.
+ */
+export interface ReleaseTarget {
+  type: "release" | "master";
+  id: number;
+  title?: string;
+  thumb?: string;
+}
+
+/**
+ * Click handler for a link to a release on Discogs that opens the drawer
+ * instead. Modified clicks (new tab or window) still follow the link.
+ */
+export function openInDrawer(
+  onOpen: ((target: ReleaseTarget) => void) | undefined,
+  target: ReleaseTarget
+) {
+  return (e: React.MouseEvent) => {
+    if (!onOpen || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    e.preventDefault();
+    onOpen(target);
+  };
+}
+
+interface ReleaseDrawerProps {
+  target: ReleaseTarget | null;
+  onClose: () => void;
+}
+
+// Identifier types shown first, the ones used to tell pressings apart
+const KEY_IDENTIFIERS = ["Barcode", "Matrix / Runout"];
+
+// Details already loaded this session, by target
+const detailsCache = new Map<string, ReleaseDetails>();
+
+async function loadDetails(target: ReleaseTarget, signal: AbortSignal): Promise<ReleaseDetails> {
+  let releaseId = target.id;
+
+  if (target.type === "master") {
+    const response = await fetch(`/api/masters/${target.id}`, { signal });
+    if (!response.ok) throw await toApiRequestError(response);
+    releaseId = (await response.json()).main_release;
+  }
+
+  const response = await fetch(`/api/release/${releaseId}`, { signal });
+  if (!response.ok) throw await toApiRequestError(response);
+  return response.json();
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="space-y-2">
+      <h3 className="text-xs font-medium text-gray-400 uppercase tracking-wider">{title}</h3>
+      {children}
+    </section>
+  );
+}
+
+function TrackRow({ track, nested = false }: { track: ReleaseTrack; nested?: boolean }) {
+  if (track.type === "heading") {
+    return (
+      <li className="pt-2 text-sm font-medium text-gray-900">{track.title}</li>
+    );
+  }
+
+  return (
+    <li className={nested ? "pl-6" : undefined}>
+      <div className="flex gap-3 py-1 text-sm">
+        <span className="w-8 flex-shrink-0 text-gray-400">{track.position}</span>
+        <div className="flex-1 min-w-0">
+          <p className="text-gray-900">
+            {track.artists && <span className="text-gray-500">{track.artists} – </span>}
+            {track.title}
+          </p>
+          {track.credits.length > 0 && (
+            <p className="text-xs text-gray-400">
+              {track.credits.map((c) => `${c.role}: ${c.name}`).join(" · ")}
+            </p>
+          )}
+        </div>
+        {track.duration && <span className="text-gray-400 flex-shrink-0">{track.duration}</span>}
+      </div>
+      {track.subTracks.length > 0 && (
+        <ul>
+          {track.subTracks.map((sub, i) => (
+            <TrackRow key={`${sub.position}-${i}`} track={sub} nested />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+function ReleaseBody({ release }: { release: ReleaseDetails }) {
+  // Credits grouped by role, e.g. "Producer" -> ["Foo", "Bar"]
+  const creditsByRole = new Map<string, string[]>();
+  release.credits.forEach((credit) => {
+    const names = creditsByRole.get(credit.role) || [];
+    names.push(credit.tracks ? `${credit.name} (${credit.tracks})` : credit.name);
+    creditsByRole.set(credit.role, names);
+  });
+
+  const identifiers = [...release.identifiers].sort((a, b) => {
+    const rank = (type: string) =>
+      KEY_IDENTIFIERS.includes(type) ? KEY_IDENTIFIERS.indexOf(type) : KEY_IDENTIFIERS.length;
+    return rank(a.type) - rank(b.type);
+  });
+
+  const stats = [
+    { label: "Have", value: release.community.have.toLocaleString() },
+    { label: "Want", value: release.community.want.toLocaleString() },
+    {
+      label: "Rating",
+      value: release.community.rating
+        ? `${release.community.rating.average.toFixed(2)} (${release.community.rating.count})`
+        : "–",
+    },
+    {
+      label: `Lowest (${release.marketplace.numForSale} for sale)`,
+      value:
+        release.marketplace.lowestPrice !== null
+          ? release.marketplace.lowestPrice.toFixed(2)
+          : "–",
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Community & marketplace */}
+      <div className="grid grid-cols-2 gap-2">
+        {stats.map((stat) => (
+          <div key={stat.label} className="p-3 rounded-lg bg-gray-50 border border-gray-100">
+            <p className="text-xs text-gray-500">{stat.label}</p>
+            <p className="text-lg font-semibold text-gray-900">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {(release.labels.length > 0 || release.formats.length > 0) && (
+        <Section title="Labels & Formats">
+          <ul className="text-sm text-gray-700 space-y-0.5">
+            {release.labels.map((label, i) => (
+              <li key={`${label.id}-${i}`}>
+                {label.name}
+                {label.catno && <span className="text-gray-400"> – {label.catno}</span>}
+              </li>
+            ))}
+            {release.formats.map((format, i) => (
+              <li key={`${format.name}-${i}`}>
+                {format.quantity > 1 && `${format.quantity} × `}
+                {format.name}
+                {format.descriptions.length > 0 && `, ${format.descriptions.join(", ")}`}
+                {format.text && <span className="text-gray-400"> ({format.text})</span>}
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+
+      {(release.genres.length > 0 || release.styles.length > 0) && (
+        <div className="flex flex-wrap gap-1">
+          {release.genres.map((genre) => (
+            <Badge key={genre} className="bg-gray-900 text-white">
+              {genre}
+            </Badge>
+          ))}
+          {release.styles.map((style) => (
+            <Badge key={style} variant="secondary" className="bg-gray-100 text-gray-700">
+              {style}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {release.tracklist.length > 0 && (
+        <Section title="Tracklist">
+          <ul className="divide-y divide-gray-50">
+            {release.tracklist.map((track, i) => (
+              <TrackRow key={`${track.position}-${i}`} track={track} />
+            ))}
+          </ul>
+        </Section>
+      )}
+
+      {creditsByRole.size > 0 && (
+        <Section title="Credits">
+          <dl className="text-sm space-y-1">
+            {[...creditsByRole].map(([role, names]) => (
+              <div key={role} className="flex gap-3">
+                <dt className="w-32 flex-shrink-0 text-gray-500">{role || "Other"}</dt>
+                <dd className="text-gray-900">{names.join(", ")}</dd>
+              </div>
+            ))}
+          </dl>
+        </Section>
+      )}
+
+      {identifiers.length > 0 && (
+        <Section title="Identifiers">
+          <dl className="text-sm space-y-1">
+            {identifiers.map((identifier, i) => (
+              <div key={i} className="flex gap-3">
+                <dt className="w-32 flex-shrink-0 text-gray-500">
+                  {identifier.type}
+                  {identifier.description && (
+                    <span className="block text-xs text-gray-400">{identifier.description}</span>
+                  )}
+                </dt>
+                <dd className="text-gray-900 font-mono text-xs break-all pt-0.5">
+                  {identifier.value}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </Section>
+      )}
+
+      {release.images.length > 1 && (
+        <Section title="Images">
+          <div className="grid grid-cols-4 gap-2">
+            {release.images.map((image, i) => (
+              <a key={i} href={image.uri} target="_blank" rel="noopener noreferrer">
+                <img
+                  src={image.thumb || image.uri}
+                  alt={`${release.title} image ${i + 1}`}
+                  className="w-full aspect-square rounded object-cover bg-gray-100 hover:opacity-80 transition-opacity"
+                />
+              </a>
+            ))}
+          </div>
+        </Section>
+      )}
+
+      {release.videos.length > 0 && (
+        <Section title="Videos">
+          <ul className="text-sm space-y-1">
+            {release.videos.map((video, i) => (
+              <li key={i}>
+                <a
+                  href={video.uri}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex justify-between gap-3 text-gray-700 hover:text-amber-600"
+                >
+                  <span className="truncate">{video.title}</span>
+                  {video.duration !== null && (
+                    <span className="text-gray-400 flex-shrink-0">{formatDuration(video.duration)}</span>
+                  )}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+
+      {release.notes && (
+        <Section title="Notes">
+          <p className="text-sm text-gray-600 whitespace-pre-line">{release.notes}</p>
+        </Section>
+      )}
+    </div>
+  );
+}
+
+export function ReleaseDrawer({ target, onClose }: ReleaseDrawerProps) {
+  const [release, setRelease] = useState<ReleaseDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!target) return;
+
+    const key = `${target.type}:${target.id}`;
+    const controller = new AbortController();
+
+    const load = async () => {
+      setRelease(detailsCache.get(key) || null);
+      setError(null);
+      if (detailsCache.has(key)) return;
+
+      try {
+        const details = await loadDetails(target, controller.signal);
+        detailsCache.set(key, details);
+        setRelease(details);
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : "Failed to load release");
+        }
+      }
+    };
+
+    load();
+    return () => controller.abort();
+  }, [target]);
+
+  // Close on Escape and keep the page behind from scrolling
+  useEffect(() => {
+    if (!target) return;
+
+    const onKeyDown = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    const overflow = document.body.style.overflow;
+    document.addEventListener("keydown", onKeyDown);
+    document.body.style.overflow = "hidden";
+
+    return () => {
+      document.removeEventListener("keydown", onKeyDown);
+      document.body.style.overflow = overflow;
+    };
+  }, [target, onClose]);
+
+  if (!target) return null;
+
+  const image = release?.images.find((i) => i.primary) || release?.images[0];
+  const thumb = image?.uri || target.thumb;
+  const title = release?.title || target.title;
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/30 animate-in fade-in" onClick={onClose} />
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-label={title || "Release details"}
+        className="absolute right-0 top-0 h-full w-full max-w-xl bg-white shadow-xl overflow-y-auto animate-in slide-in-from-right duration-200"
+      >
+        {/* Header */}
+        <div className="sticky top-0 z-10 bg-white border-b border-gray-100 p-6 flex gap-4">
+          {thumb ? (
+            <img src={thumb} alt={title || ""} className="w-24 h-24 rounded object-cover flex-shrink-0" />
+          ) : (
+            <div className="w-24 h-24 rounded bg-gray-100 flex-shrink-0" />
+          )}
+          <div className="flex-1 min-w-0">
+            {title ? (
+              <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+            ) : (
+              <Skeleton className="h-6 w-48" />
+            )}
+            {release ? (
+              <>
+                <p className="text-sm text-gray-600">{release.artists}</p>
+                <p className="text-xs text-gray-400 mt-1">
+                  {[release.released || release.year, release.country].filter(Boolean).join(" · ")}
+                </p>
+                <a
+                  href={release.uri}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-block mt-2 text-xs font-medium text-amber-600 hover:text-amber-700"
+                >
+                  View on Discogs →
+                </a>
+              </>
+            ) : (
+              !error && <Skeleton className="h-4 w-32 mt-2" />
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="self-start p-1.5 rounded-md text-gray-400 hover:text-gray-600 hover:bg-gray-100 transition-colors"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6">
+          {error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : release ? (
+            <ReleaseBody release={release} />
+          ) : (
+            <div className="space-y-3">
+              <Skeleton className="h-20 w-full" />
+              <Skeleton className="h-40 w-full" />
+              <Skeleton className="h-24 w-full" />
+            </div>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+
+/**
+ * Compact stat card for the DNA overview
+ */
+export function StatCard({
+  label,
+  value,
+  sublabel,
+  icon,
+  loading,
+}: {
+  label: string;
+  value: string;
+  sublabel?: string;
+  icon?: React.ReactNode;
+  loading?: boolean;
+}) {
+  return (
+    <Card className="bg-white">
+      <CardContent className="p-3">
+        <div className="flex items-center gap-3">
+          {icon && (
+            <div className="p-1.5 rounded-md bg-gray-100 text-gray-500 flex-shrink-0">
+              {icon}
+            </div>
+          )}
+          <div className="min-w-0 flex-1">
+            <p className="text-xs font-medium text-gray-500 truncate">{label}</p>
+            {loading ? (
+              <Skeleton className="h-5 w-16 mt-0.5" />
+            ) : (
+              <div className="flex items-baseline gap-1.5">
+                <p className="text-lg font-semibold text-gray-900 truncate">{value}</p>
+                {sublabel && (
+                  <span className="text-xs text-amber-600 flex-shrink-0">{sublabel}</span>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import type { CollectionValueSnapshot } from "@/lib/collection-value";
+
+interface ValueTrendProps {
+  history: CollectionValueSnapshot[];
+}
+
+export function ValueTrend({ history }: ValueTrendProps) {
+  // Only chart snapshots in the current currency
+  const currency = history[history.length - 1]?.currency ?? "";
+  const data = history.filter((s) => s.currency === currency);
+
+  if (data.length < 2) return null;
+
+  const first = data[0].median;
+  const last = data[data.length - 1].median;
+  const change = first > 0 ? ((last - first) / first) * 100 : 0;
+
+  return (
+    <Card className="bg-white border-gray-200">
+      <CardHeader>
+        <CardTitle className="text-gray-900">Collection Value</CardTitle>
+        <CardDescription className="text-gray-500">
+          Median value since {data[0].date}
+          <span className={change >= 0 ? "text-green-600" : "text-red-600"}>
+            {" "}({change >= 0 ? "+" : ""}{change.toFixed(1)}%)
+          </span>
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="h-[200px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data}>
+              <XAxis dataKey="date" stroke="#9ca3af" fontSize={12} />
+              <YAxis
+                stroke="#9ca3af"
+                fontSize={12}
+                width={70}
+                tickFormatter={(v: number) => `${currency}${Math.round(v).toLocaleString()}`}
+              />
+              <Tooltip
+                formatter={(v) => `${currency}${Number(v).toLocaleString()}`}
+                contentStyle={{
+                  background: "#fff",
+                  border: "1px solid #e5e7eb",
+                  borderRadius: "8px",
+                  boxShadow: "0 4px 6px -1px rgb(0 0 0 / 0.1)",
+                }}
+              />
+              <Line type="monotone" dataKey="minimum" stroke="#d1d5db" dot={false} />
+              <Line type="monotone" dataKey="median" stroke="#E67E22" strokeWidth={2} />
+              <Line type="monotone" dataKey="maximum" stroke="#d1d5db" dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
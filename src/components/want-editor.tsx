@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+import { StarRating } from "@/components/instance-controls";
+import type { WantDetails } from "@/hooks/use-wantlist";
+
+/**
+ * Notes and rating of a want, editable inline
+ */
+export function WantEditor({
+  details,
+  saving,
+  onSave,
+}: {
+  details: WantDetails;
+  saving: boolean;
+  onSave: (changes: WantDetails) => Promise<boolean>;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [failed, setFailed] = useState(false);
+
+  const save = async (changes: WantDetails) => {
+    const saved = await onSave(changes);
+    setFailed(!saved);
+    return saved;
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3">
+        <StarRating
+          value={details.rating || 0}
+          disabled={saving}
+          onChange={(rating) => save({ rating })}
+        />
+        <button
+          onClick={() => {
+            setDraft(details.notes || "");
+            setEditing(!editing);
+          }}
+          disabled={saving}
+          className="text-xs font-medium text-gray-500 hover:text-gray-900"
+        >
+          {details.notes ? "Edit note" : "Add note"}
+        </button>
+        {saving && <span className="text-xs text-gray-400">Saving...</span>}
+        {failed && !saving && <span className="text-xs text-red-600">Failed to save</span>}
+      </div>
+
+      {!editing && details.notes && (
+        <p className="text-xs text-gray-500 italic line-clamp-2">{details.notes}</p>
+      )}
+
+      {editing && (
+        <div className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={2}
+            className="w-full text-sm rounded-md border border-gray-200 bg-white p-2 text-gray-900"
+            placeholder="Why do you want this?"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={async () => {
+                if (await save({ notes: draft })) setEditing(false);
+              }}
+              disabled={saving}
+              className="px-2.5 py-1 rounded-md text-xs font-medium bg-gray-900 text-white hover:bg-gray-800"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => setEditing(false)}
+              className="px-2.5 py-1 rounded-md text-xs font-medium text-gray-600 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import type { WantlistStatus } from "@/hooks/use-wantlist";
+
+export function WantlistButton({
+  status,
+  onClick,
+}: {
+  status: WantlistStatus;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={(e) => {
+        e.preventDefault();
+        if (status === "idle" || status === "error") {
+          onClick();
+        }
+      }}
+      disabled={status === "loading" || status === "added"}
+      className={`p-2 rounded-md transition-all ${
+        status === "added"
+          ? "bg-green-100 text-green-600 cursor-default"
+          : status === "loading"
+          ? "bg-gray-100 text-gray-400 cursor-wait"
+          : status === "error"
+          ? "bg-red-100 text-red-600 hover:bg-red-200"
+          : "bg-gray-100 text-gray-500 hover:bg-amber-100 hover:text-amber-600"
+      }`}
+      title={
+        status === "added"
+          ? "Added to wantlist"
+          : status === "loading"
+          ? "Adding..."
+          : status === "error"
+          ? "Failed - click to retry"
+          : "Add to wantlist"
+      }
+    >
+      {status === "loading" ? (
+        <svg
+          className="w-5 h-5 animate-spin"
+          fill="none"
+          viewBox="0 0 24 24"
+        >
+          <circle
+            className="opacity-25"
+            cx="12"
+            cy="12"
+            r="10"
+            stroke="currentColor"
+            strokeWidth="4"
+          />
+          <path
+            className="opacity-75"
+            fill="currentColor"
+            d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"
+          />
+        </svg>
+      ) : status === "added" ? (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M5 13l4 4L19 7"
+          />
+        </svg>
+      ) : (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z"
+          />
+        </svg>
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { WantEditor } from "@/components/want-editor";
+import { useWantlist } from "@/hooks/use-wantlist";
+import { openInDrawer, type ReleaseTarget } from "@/components/release-drawer";
+import type { PaginationProgress } from "@/lib/paginate";
+import { fetchWantlist, type WantlistItem } from "@/lib/wantlist";
+
+interface WantlistViewProps {
+  username: string;
+  onOpenRelease?: (target: ReleaseTarget) => void;
+}
+
+type WantFilter = "all" | "noted" | "unnoted";
+
+export function WantlistView({ username, onOpenRelease }: WantlistViewProps) {
+  const [wants, setWants] = useState<WantlistItem[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<PaginationProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [filter, setFilter] = useState<WantFilter>("all");
+  const { getDetails, isSaving, updateWant } = useWantlist();
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Your wantlist changes as you use the app, so it's read fresh, not cached
+  const load = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoading(true);
+    setError(null);
+    setProgress(null);
+
+    try {
+      setWants(await fetchWantlist(username, { signal: controller.signal, onProgress: setProgress }));
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : "Failed to load your wantlist");
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+        setProgress(null);
+      }
+    }
+  }, [username]);
+
+  useEffect(() => {
+    load();
+    return () => abortRef.current?.abort();
+  }, [load]);
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return (wants || []).filter((want) => {
+      const info = want.basic_information;
+      const notes = getDetails(want.id).notes ?? want.notes;
+      if (filter === "noted" && !notes) return false;
+      if (filter === "unnoted" && notes) return false;
+      if (!q) return true;
+      return (
+        info.title.toLowerCase().includes(q) ||
+        info.artists?.some((a) => a.name.toLowerCase().includes(q))
+      );
+    });
+  }, [wants, query, filter, getDetails]);
+
+  return (
+    <Card className="bg-white border-gray-200">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-gray-900">Your Wantlist</CardTitle>
+            <CardDescription className="text-gray-500">
+              {wants
+                ? `${wants.length} wants. Rate them and note why you want them`
+                : "Rate your wants and note why you want them"}
+            </CardDescription>
+          </div>
+          {!loading && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={load}
+              className="border-gray-200 text-gray-700 hover:bg-gray-100 flex-shrink-0"
+            >
+              Reload
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-500">
+              Loading your wantlist
+              {progress ? `: ${progress.loaded} of ${progress.total}` : ""}...
+            </p>
+            <Progress
+              value={progress?.total ? (progress.loaded / progress.total) * 100 : 0}
+              className="h-1.5"
+            />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {wants && (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <Input
+                placeholder="Filter by title or artist"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="max-w-xs bg-white border-gray-200 text-gray-900 placeholder:text-gray-400"
+              />
+              <div className="flex gap-2">
+                {(["all", "noted", "unnoted"] as const).map((f) => (
+                  <button
+                    key={f}
+                    onClick={() => setFilter(f)}
+                    className={`px-3 py-1 rounded-md text-sm font-medium capitalize transition-colors ${
+                      filter === f
+                        ? "bg-gray-900 text-white"
+                        : "text-gray-600 hover:bg-gray-100"
+                    }`}
+                  >
+                    {f}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {visible.length === 0 ? (
+              <p className="text-gray-500 text-center py-8 text-sm">No wants</p>
+            ) : (
+              <div className="space-y-2 max-h-[600px] overflow-y-auto">
+                {visible.map((want) => {
+                  const info = want.basic_information;
+                  return (
+                    <div
+                      key={want.id}
+                      className="p-3 rounded-lg bg-gray-50 border border-gray-100 space-y-2"
+                    >
+                      <a
+                        href={`https://www.discogs.com/release/${info.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        onClick={openInDrawer(onOpenRelease, { type: "release", id: info.id, title: info.title, thumb: info.thumb })}
+                        className="flex items-center gap-3"
+                      >
+                        {info.thumb ? (
+                          <img
+                            src={info.thumb}
+                            alt={info.title}
+                            className="w-12 h-12 rounded object-cover flex-shrink-0"
+                          />
+                        ) : (
+                          <div className="w-12 h-12 rounded bg-gray-100 flex-shrink-0" />
+                        )}
+                        <div className="min-w-0 flex-1">
+                          <p className="font-medium text-gray-900 truncate">{info.title}</p>
+                          <p className="text-sm text-gray-500 truncate">
+                            {info.artists?.map((a) => a.name).join(", ")}
+                            {info.year ? ` • ${info.year}` : ""}
+                          </p>
+                        </div>
+                      </a>
+                      <div className="pl-[60px]">
+                        <WantEditor
+                          details={{
+                            notes: want.notes ?? undefined,
+                            rating: want.rating,
+                            ...getDetails(want.id),
+                          }}
+                          saving={isSaving(want.id)}
+                          onSave={(changes) => updateWant(want.id, changes)}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { mutationHeaders } from "@/lib/csrf";
+import type { DiscogsRelease } from "@/lib/discogs";
+
+export type CollectionWriteStatus = "idle" | "loading" | "added" | "error";
+
+export interface InstanceChanges {
+  rating?: number;
+  folderId?: number;
+  field?: { id: number; value: string };
+}
+
+interface CollectionActionsOptions {
+  onUpdated?: (release: DiscogsRelease) => void;
+  onRemoved?: (release: DiscogsRelease) => void;
+  onAdded?: (releaseId: number, instanceId: number) => void;
+}
+
+/**
+ * Collection writes (add, edit, move, remove) with per-item request status.
+ * Callers apply the returned changes to their own copy of the collection
+ * through the callbacks.
+ */
+export function useCollectionActions({
+  onUpdated,
+  onRemoved,
+  onAdded,
+}: CollectionActionsOptions = {}) {
+  // Keyed by instance ID for edits, by release ID for additions
+  const [instanceStatus, setInstanceStatus] = useState<Record<number, CollectionWriteStatus>>({});
+  const [addStatus, setAddStatus] = useState<Record<number, CollectionWriteStatus>>({});
+
+  const updateInstance = useCallback(
+    async (release: DiscogsRelease, changes: InstanceChanges) => {
+      const instanceId = release.instance_id;
+      setInstanceStatus((prev) => ({ ...prev, [instanceId]: "loading" }));
+
+      try {
+        const response = await fetch(`/api/collection/instances/${instanceId}`, {
+          method: "PATCH",
+          headers: mutationHeaders(),
+          body: JSON.stringify({
+            releaseId: release.id,
+            folderId: release.folder_id,
+            rating: changes.rating,
+            targetFolderId: changes.folderId,
+            field: changes.field,
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to update collection item");
+        }
+
+        const field = changes.field;
+        onUpdated?.({
+          ...release,
+          rating: changes.rating ?? release.rating,
+          folder_id: changes.folderId ?? release.folder_id,
+          notes: field
+            ? [
+                ...(release.notes || []).filter((n) => n.field_id !== field.id),
+                { field_id: field.id, value: field.value },
+              ]
+            : release.notes,
+        });
+        setInstanceStatus((prev) => ({ ...prev, [instanceId]: "idle" }));
+        return true;
+      } catch (err) {
+        console.error("Failed to update collection item:", err);
+        setInstanceStatus((prev) => ({ ...prev, [instanceId]: "error" }));
+        return false;
+      }
+    },
+    [onUpdated]
+  );
+
+  const removeInstance = useCallback(
+    async (release: DiscogsRelease) => {
+      const instanceId = release.instance_id;
+      setInstanceStatus((prev) => ({ ...prev, [instanceId]: "loading" }));
+
+      try {
+        const response = await fetch(`/api/collection/instances/${instanceId}`, {
+          method: "DELETE",
+          headers: mutationHeaders(),
+          body: JSON.stringify({ releaseId: release.id, folderId: release.folder_id }),
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to remove from collection");
+        }
+
+        onRemoved?.(release);
+        return true;
+      } catch (err) {
+        console.error("Failed to remove from collection:", err);
+        setInstanceStatus((prev) => ({ ...prev, [instanceId]: "error" }));
+        return false;
+      }
+    },
+    [onRemoved]
+  );
+
+  const addToCollection = useCallback(
+    async (releaseId: number, folderId?: number) => {
+      setAddStatus((prev) => ({ ...prev, [releaseId]: "loading" }));
+
+      try {
+        const response = await fetch("/api/collection/releases", {
+          method: "POST",
+          headers: mutationHeaders(),
+          body: JSON.stringify({ releaseId, folderId }),
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to add to collection");
+        }
+
+        const data = await response.json();
+        setAddStatus((prev) => ({ ...prev, [releaseId]: "added" }));
+        onAdded?.(releaseId, data.instanceId);
+        return true;
+      } catch (err) {
+        console.error("Failed to add to collection:", err);
+        setAddStatus((prev) => ({ ...prev, [releaseId]: "error" }));
+        return false;
+      }
+    },
+    [onAdded]
+  );
+
+  const getInstanceStatus = useCallback(
+    (instanceId: number): CollectionWriteStatus => instanceStatus[instanceId] || "idle",
+    [instanceStatus]
+  );
+
+  const getAddStatus = useCallback(
+    (releaseId: number): CollectionWriteStatus => addStatus[releaseId] || "idle",
+    [addStatus]
+  );
+
+  return {
+    updateInstance,
+    removeInstance,
+    addToCollection,
+    getInstanceStatus,
+    getAddStatus,
+  };
+}
+
+export type CollectionActions = ReturnType<typeof useCollectionActions>;
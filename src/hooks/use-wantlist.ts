@@ -0,0 +1,86 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { mutationHeaders } from "@/lib/csrf";
+
+export type WantlistStatus = "idle" | "loading" | "added" | "error";
+
+export interface WantDetails {
+  notes?: string;
+  rating?: number;
+}
+
+/**
+ * Track add-to-wantlist requests per release ID, along with the notes and
+ * rating of wants added or edited this session
+ */
+export function useWantlist() {
+  const [status, setStatus] = useState<Record<number, WantlistStatus>>({});
+  const [details, setDetails] = useState<Record<number, WantDetails>>({});
+  const [saving, setSaving] = useState<Record<number, boolean>>({});
+
+  const addToWantlist = useCallback(async (releaseId: number, want: WantDetails = {}) => {
+    setStatus((prev) => ({ ...prev, [releaseId]: "loading" }));
+
+    try {
+      const response = await fetch("/api/wantlist", {
+        method: "POST",
+        headers: mutationHeaders(),
+        body: JSON.stringify({ releaseId, ...want }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to add to wantlist");
+      }
+
+      setStatus((prev) => ({ ...prev, [releaseId]: "added" }));
+      setDetails((prev) => ({ ...prev, [releaseId]: want }));
+      return true;
+    } catch (err) {
+      console.error("Failed to add to wantlist:", err);
+      setStatus((prev) => ({ ...prev, [releaseId]: "error" }));
+      return false;
+    }
+  }, []);
+
+  const updateWant = useCallback(async (releaseId: number, changes: WantDetails) => {
+    setSaving((prev) => ({ ...prev, [releaseId]: true }));
+
+    try {
+      const response = await fetch("/api/wantlist", {
+        method: "PATCH",
+        headers: mutationHeaders(),
+        body: JSON.stringify({ releaseId, ...changes }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update wantlist item");
+      }
+
+      setDetails((prev) => ({ ...prev, [releaseId]: { ...prev[releaseId], ...changes } }));
+      return true;
+    } catch (err) {
+      console.error("Failed to update wantlist item:", err);
+      return false;
+    } finally {
+      setSaving((prev) => ({ ...prev, [releaseId]: false }));
+    }
+  }, []);
+
+  const getStatus = useCallback(
+    (releaseId: number): WantlistStatus => status[releaseId] || "idle",
+    [status]
+  );
+
+  const getDetails = useCallback(
+    (releaseId: number): WantDetails => details[releaseId] || {},
+    [details]
+  );
+
+  const isSaving = useCallback(
+    (releaseId: number) => saving[releaseId] || false,
+    [saving]
+  );
+
+  return { getStatus, getDetails, isSaving, addToWantlist, updateWant };
+}
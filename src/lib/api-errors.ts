@@ -0,0 +1,93 @@
+/**
+ * API Errors
+ *
+ * Error responses from our API routes carry a machine-readable code next
+ * to the message, so the UI can react (ask to sign in again, explain that
+ * a collection is private, back off) instead of showing a generic
+ * failure. Safe to use on both server and client.
+ */
+
+export type ApiErrorCode =
+  | "invalid_request" // 400, bad parameters or body
+  | "unauthenticated" // 401, no session
+  | "discogs_unauthorized" // 401, Discogs rejected the stored credentials
+  | "invalid_csrf" // 403, missing or wrong CSRF token
+  | "private" // 403, private on Discogs
+  | "not_found" // 404, not found on Discogs
+  | "rate_limited" // 429, Discogs rate limit hit even after retries
+  | "invalid_response" // 502, Discogs payload didn't match our models
+  | "upstream_error" // 502, any other Discogs failure
+  | "internal"; // 500
+
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+}
+
+/**
+ * Read the error body of a failed API response. Falls back to a generic
+ * message for responses that aren't ours (e.g. a proxy's HTML error page).
+ */
+export async function readApiError(response: Response): Promise<ApiErrorBody> {
+  try {
+    const body = await response.json();
+    if (typeof body?.error === "string" && typeof body?.code === "string") {
+      return body;
+    }
+  } catch {
+    // Not JSON
+  }
+  return { error: `Request failed (${response.status})`, code: "internal" };
+}
+
+/**
+ * A failed API request, carrying the route's error code
+ */
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ApiErrorCode,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = "ApiRequestError";
+  }
+}
+
+/**
+ * Build an ApiRequestError from a failed API response
+ */
+export async function toApiRequestError(response: Response): Promise<ApiRequestError> {
+  const { error, code } = await readApiError(response);
+  return new ApiRequestError(error, code, response.status);
+}
+
+/**
+ * Whether the user has to sign in (again) to fix the error
+ */
+export function needsSignIn(error: unknown): boolean {
+  return (
+    error instanceof ApiRequestError &&
+    (error.code === "unauthenticated" || error.code === "discogs_unauthorized")
+  );
+}
+
+/**
+ * User-facing message for a failed load of someone's collection
+ */
+export function describeCollectionError(error: unknown, username: string): string {
+  if (!(error instanceof ApiRequestError)) {
+    return error instanceof Error ? error.message : "Failed to load collection";
+  }
+
+  switch (error.code) {
+    case "private":
+      return `${username}'s collection is private.`;
+    case "not_found":
+      return `There's no Discogs user named ${username}.`;
+    case "rate_limited":
+      return "Discogs is busy right now. Try again in a minute.";
+    default:
+      return error.message;
+  }
+}
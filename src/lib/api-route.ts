@@ -0,0 +1,166 @@
+/**
+ * API Route Wrapper
+ *
+ * Wraps route handlers with the steps every Discogs-backed route shares:
+ * resolving the session, checking CSRF on writes, building the client and
+ * turning failures into error responses with a status and code the UI
+ * can act on (see ./api-errors). Server-only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { ApiErrorBody, ApiErrorCode } from "./api-errors";
+import {
+  createDiscogsClient,
+  DiscogsApiError,
+  DiscogsValidationError,
+  type DiscogsClient,
+} from "./discogs";
+import { getRequestAuth, getSession, verifyCsrf, type Session } from "./session";
+
+// Discogs' rate limit window is a minute
+const RATE_LIMIT_RETRY_AFTER = 60;
+
+interface RouteOptions {
+  errorMessage: string; // shown for unexpected failures, e.g. "Failed to fetch collection"
+  csrf?: boolean; // require the session's CSRF token (mutating routes)
+}
+
+interface RouteContext<P> {
+  request: NextRequest;
+  params: P;
+  client: DiscogsClient;
+}
+
+export interface SessionRouteContext<P> extends RouteContext<P> {
+  session: Session;
+}
+
+export interface PublicRouteContext<P> extends RouteContext<P> {
+  session: Session | null;
+}
+
+// What Next.js passes as the second handler argument
+interface HandlerContext<P> {
+  params?: Promise<P>;
+}
+
+/**
+ * JSON error response with a code
+ */
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  error: string,
+  headers?: HeadersInit
+): NextResponse<ApiErrorBody> {
+  return NextResponse.json({ error, code }, { status, headers });
+}
+
+interface ApiFailure {
+  status: number;
+  code: ApiErrorCode;
+  error: string;
+  headers?: HeadersInit;
+}
+
+/**
+ * Status, code and message for an error thrown while handling a request.
+ * Unexpected errors are logged under errorMessage.
+ */
+export function describeFailure(error: unknown, errorMessage: string): ApiFailure {
+  if (error instanceof DiscogsApiError) {
+    switch (error.status) {
+      case 401:
+        return {
+          status: 401,
+          code: "discogs_unauthorized",
+          error: "Discogs rejected your credentials. Please sign in again.",
+        };
+      case 403:
+        return { status: 403, code: "private", error: "This is private on Discogs" };
+      case 404:
+        return { status: 404, code: "not_found", error: "Not found on Discogs" };
+      case 429:
+        return {
+          status: 429,
+          code: "rate_limited",
+          error: "Discogs is rate limiting requests. Try again in a minute.",
+          headers: { "Retry-After": String(RATE_LIMIT_RETRY_AFTER) },
+        };
+      default:
+        console.error(`${errorMessage}:`, error);
+        return { status: 502, code: "upstream_error", error: errorMessage };
+    }
+  }
+
+  if (error instanceof DiscogsValidationError) {
+    console.error(`${errorMessage}:`, error);
+    return { status: 502, code: "invalid_response", error: "Unexpected data from Discogs" };
+  }
+
+  // request.json() on a malformed body
+  if (error instanceof SyntaxError) {
+    return { status: 400, code: "invalid_request", error: "Invalid JSON body" };
+  }
+
+  console.error(`${errorMessage}:`, error);
+  return { status: 500, code: "internal", error: errorMessage };
+}
+
+function toErrorResponse(error: unknown, errorMessage: string): NextResponse<ApiErrorBody> {
+  const { status, code, error: message, headers } = describeFailure(error, errorMessage);
+  return apiError(status, code, message, headers);
+}
+
+async function run(
+  handler: () => Promise<Response>,
+  errorMessage: string
+): Promise<Response> {
+  try {
+    return await handler();
+  } catch (error) {
+    return toErrorResponse(error, errorMessage);
+  }
+}
+
+/**
+ * Route that needs a signed-in user. The client acts as the active account.
+ */
+export function withSession<P = Record<string, never>>(
+  options: RouteOptions,
+  handler: (context: SessionRouteContext<P>) => Promise<Response>
+) {
+  return async (request: NextRequest, context: HandlerContext<P>): Promise<Response> => {
+    const session = await getSession();
+
+    if (!session) {
+      return apiError(401, "unauthenticated", "Not authenticated");
+    }
+
+    if (options.csrf && !verifyCsrf(request, session)) {
+      return apiError(403, "invalid_csrf", "Invalid CSRF token");
+    }
+
+    const params = (await context.params) as P;
+    const client = createDiscogsClient(session.auth);
+
+    return run(() => handler({ request, params, session, client }), options.errorMessage);
+  };
+}
+
+/**
+ * Route serving public data. The client acts as the signed-in user when
+ * there is one, otherwise with the app's key/secret or anonymously.
+ */
+export function withClient<P = Record<string, never>>(
+  options: Omit<RouteOptions, "csrf">,
+  handler: (context: PublicRouteContext<P>) => Promise<Response>
+) {
+  return async (request: NextRequest, context: HandlerContext<P>): Promise<Response> => {
+    const session = await getSession();
+    const params = (await context.params) as P;
+    const client = createDiscogsClient(session ? session.auth : await getRequestAuth());
+
+    return run(() => handler({ request, params, session, client }), options.errorMessage);
+  };
+}
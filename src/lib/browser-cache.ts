@@ -0,0 +1,196 @@
+/**
+ * Browser Cache
+ *
+ * IndexedDB-backed cache for data too large for localStorage (a 3,000+
+ * record collection is well past its ~5MB limit). Each linked account gets
+ * its own database with one object store per kind of data, plus an index
+ * of entries (size, age) for the cache panel. Every kind has a schema
+ * version: entries written with another version are treated as missing.
+ *
+ * Browser only. A cache is never essential, so failures (IndexedDB
+ * disabled, quota exceeded) read as a miss and writes are dropped.
+ */
+
+export type CacheKind = "collection" | "recommendations" | "friends" | "wantlists";
+
+// Bump a kind's version when the shape of its data changes
+const SCHEMA_VERSIONS: Record<CacheKind, number> = {
+  collection: 1,
+  recommendations: 1,
+  friends: 1,
+  wantlists: 1,
+};
+
+const CACHE_KINDS = Object.keys(SCHEMA_VERSIONS) as CacheKind[];
+const ENTRIES_STORE = "entries";
+const DB_VERSION = 2; // 2: wantlists store
+
+// localStorage caches this replaces, removed when a database is created
+const LEGACY_KEYS = (username: string) => [
+  `deepcogs_collection:${username}`,
+  `deepcogs_recommendations:${username}`,
+  "deepcogs_collection",
+  "deepcogs_recommendations",
+];
+
+interface CacheRecord<T> {
+  key: string;
+  schema: number;
+  savedAt: number; // epoch ms
+  data: T;
+}
+
+export interface CacheEntryInfo {
+  id: string; // kind/key
+  kind: CacheKind;
+  key: string;
+  savedAt: number; // epoch ms
+  size: number; // bytes, as JSON
+}
+
+export interface CachedValue<T> {
+  data: T;
+  savedAt: number; // epoch ms
+}
+
+const databases = new Map<string, Promise<IDBDatabase>>();
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function done(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openDatabase(username: string): Promise<IDBDatabase> {
+  const name = `deepcogs:${username}`;
+  const existing = databases.get(name);
+  if (existing) return existing;
+
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const kind of CACHE_KINDS) {
+        if (!db.objectStoreNames.contains(kind)) {
+          db.createObjectStore(kind, { keyPath: "key" });
+        }
+      }
+      if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+        db.createObjectStore(ENTRIES_STORE, { keyPath: "id" });
+      }
+
+      try {
+        LEGACY_KEYS(username).forEach((key) => localStorage.removeItem(key));
+      } catch {
+        // localStorage might be disabled
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version of the app in another tab upgrade the schema
+      db.onversionchange = () => {
+        db.close();
+        databases.delete(name);
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  // Don't keep a failed open around, so a later call can try again
+  opening.catch(() => databases.delete(name));
+  databases.set(name, opening);
+  return opening;
+}
+
+const entryId = (kind: CacheKind, key: string) => `${kind}/${key}`;
+
+/**
+ * Read a cached value, or null if missing or from another schema version
+ */
+export async function readCache<T>(
+  username: string,
+  kind: CacheKind,
+  key: string
+): Promise<CachedValue<T> | null> {
+  try {
+    const db = await openDatabase(username);
+    const store = db.transaction(kind, "readonly").objectStore(kind);
+    const record: CacheRecord<T> | undefined = await promisify(store.get(key));
+
+    if (!record || record.schema !== SCHEMA_VERSIONS[kind]) return null;
+    return { data: record.data, savedAt: record.savedAt };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Cache a value, replacing any previous one under the same key
+ */
+export async function writeCache<T>(
+  username: string,
+  kind: CacheKind,
+  key: string,
+  data: T
+): Promise<void> {
+  try {
+    const db = await openDatabase(username);
+    const savedAt = Date.now();
+    const record: CacheRecord<T> = { key, schema: SCHEMA_VERSIONS[kind], savedAt, data };
+    const entry: CacheEntryInfo = {
+      id: entryId(kind, key),
+      kind,
+      key,
+      savedAt,
+      size: new Blob([JSON.stringify(data)]).size,
+    };
+
+    const transaction = db.transaction([kind, ENTRIES_STORE], "readwrite");
+    transaction.objectStore(kind).put(record);
+    transaction.objectStore(ENTRIES_STORE).put(entry);
+    await done(transaction);
+  } catch (error) {
+    console.error(`Failed to cache ${kind}/${key}:`, error);
+  }
+}
+
+/**
+ * Remove a cached value
+ */
+export async function deleteCache(username: string, kind: CacheKind, key: string): Promise<void> {
+  try {
+    const db = await openDatabase(username);
+    const transaction = db.transaction([kind, ENTRIES_STORE], "readwrite");
+    transaction.objectStore(kind).delete(key);
+    transaction.objectStore(ENTRIES_STORE).delete(entryId(kind, key));
+    await done(transaction);
+  } catch {
+    // Nothing cached, or nothing we can do
+  }
+}
+
+/**
+ * Everything cached for a user, newest first
+ */
+export async function listCache(username: string): Promise<CacheEntryInfo[]> {
+  try {
+    const db = await openDatabase(username);
+    const store = db.transaction(ENTRIES_STORE, "readonly").objectStore(ENTRIES_STORE);
+    const entries: CacheEntryInfo[] = await promisify(store.getAll());
+    return entries.sort((a, b) => b.savedAt - a.savedAt);
+  } catch {
+    return [];
+  }
+}
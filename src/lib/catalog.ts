@@ -0,0 +1,182 @@
+/**
+ * Label Catalogue Analysis
+ *
+ * Parses catalog numbers into series (e.g. FOO001–FOO050), lines a label's
+ * releases up against the user's collection and finds the gaps.
+ * Safe to use on both server and client.
+ */
+
+import type { DiscogsLabelRelease, DiscogsRelease } from "./discogs";
+
+export interface CatalogNumber {
+  series: string; // normalized prefix, e.g. "FOO" for "foo-001"
+  number: number;
+  width: number; // digits as written, to keep zero padding
+}
+
+export interface CatalogSeriesEntry {
+  number: number;
+  catno: string;
+  owned: boolean;
+  releases: DiscogsLabelRelease[]; // empty when Discogs lists nothing under this number
+}
+
+export interface CatalogSeries {
+  series: string;
+  first: number;
+  last: number;
+  entries: CatalogSeriesEntry[];
+  owned: number;
+  total: number;
+  percent: number;
+  complete: boolean; // false when the range was too wide to enumerate
+}
+
+export interface LabelCatalog {
+  series: CatalogSeries[];
+  unparsed: DiscogsLabelRelease[]; // releases without a usable catalog number
+}
+
+// Ranges wider than this are listed by known numbers only, a stray
+// "FOO 2001" shouldn't produce 2000 gaps
+export const MAX_SERIES_SPAN = 500;
+
+// Prefix (ending in a letter), optional separator, number, optional short
+// suffix for format variants like FOO001LP or FOO001R
+const CATNO_PATTERN = /^(.*?[A-Z])[\s\-./]*(\d{1,5})\s*[A-Z]{0,3}$/;
+
+/**
+ * Parse a catalog number like "FOO 001" or "WARP-LP-123".
+ * Returns null for "none" and anything without a trailing number.
+ */
+export function parseCatalogNumber(catno: string): CatalogNumber | null {
+  const normalized = catno.trim().toUpperCase();
+  if (!normalized || normalized === "NONE") return null;
+
+  const match = normalized.match(CATNO_PATTERN);
+  if (!match) return null;
+
+  const series = match[1].replace(/[^A-Z0-9]/g, "");
+  if (!series) return null;
+
+  return { series, number: parseInt(match[2], 10), width: match[2].length };
+}
+
+function formatCatno(series: string, number: number, width: number): string {
+  return `${series}${String(number).padStart(width, "0")}`;
+}
+
+/**
+ * Labels in a collection with their release counts, most collected first
+ */
+export function getCollectionLabels(releases: DiscogsRelease[]) {
+  const labels = new Map<number, { id: number; name: string; count: number }>();
+
+  releases.forEach((release) => {
+    // A release can list the same label twice with different catnos
+    const seen = new Set<number>();
+    release.basic_information.labels?.forEach((label) => {
+      if (!label.id || seen.has(label.id) || label.name.startsWith("Not On Label")) return;
+      seen.add(label.id);
+      const existing = labels.get(label.id);
+      if (existing) {
+        existing.count++;
+      } else {
+        labels.set(label.id, { id: label.id, name: label.name, count: 1 });
+      }
+    });
+  });
+
+  return Array.from(labels.values()).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Group a label's releases into catalog-number series and mark which
+ * numbers the collection already has
+ */
+export function buildLabelCatalog(
+  labelId: number,
+  labelReleases: DiscogsLabelRelease[],
+  collection: DiscogsRelease[]
+): LabelCatalog {
+  const ownedReleaseIds = new Set(collection.map((r) => r.basic_information.id));
+
+  // Catalog numbers the user owns on this label, by series
+  const ownedNumbers = new Map<string, Set<number>>();
+  const markOwned = (parsed: CatalogNumber) => {
+    if (!ownedNumbers.has(parsed.series)) ownedNumbers.set(parsed.series, new Set());
+    ownedNumbers.get(parsed.series)!.add(parsed.number);
+  };
+
+  collection.forEach((release) => {
+    release.basic_information.labels?.forEach((label) => {
+      if (label.id !== labelId) return;
+      const parsed = parseCatalogNumber(label.catno);
+      if (parsed) markOwned(parsed);
+    });
+  });
+
+  const grouped = new Map<string, { width: number; byNumber: Map<number, DiscogsLabelRelease[]> }>();
+  const unparsed: DiscogsLabelRelease[] = [];
+
+  labelReleases.forEach((release) => {
+    const parsed = parseCatalogNumber(release.catno);
+    if (!parsed) {
+      unparsed.push(release);
+      return;
+    }
+    if (ownedReleaseIds.has(release.id)) markOwned(parsed);
+
+    if (!grouped.has(parsed.series)) {
+      grouped.set(parsed.series, { width: parsed.width, byNumber: new Map() });
+    }
+    const group = grouped.get(parsed.series)!;
+    group.width = Math.max(group.width, parsed.width);
+    if (!group.byNumber.has(parsed.number)) group.byNumber.set(parsed.number, []);
+    group.byNumber.get(parsed.number)!.push(release);
+  });
+
+  const series: CatalogSeries[] = Array.from(grouped.entries()).map(([prefix, group]) => {
+    const owned = ownedNumbers.get(prefix) || new Set<number>();
+    const known = Array.from(new Set([...group.byNumber.keys(), ...owned])).sort((a, b) => a - b);
+    const first = known[0];
+    const last = known[known.length - 1];
+    const complete = last - first < MAX_SERIES_SPAN;
+
+    const numbers = complete
+      ? Array.from({ length: last - first + 1 }, (_, i) => first + i)
+      : known;
+
+    const entries = numbers.map((number) => {
+      const releases = group.byNumber.get(number) || [];
+      return {
+        number,
+        catno: releases[0]?.catno || formatCatno(prefix, number, group.width),
+        owned: owned.has(number),
+        releases,
+      };
+    });
+
+    const ownedCount = entries.filter((e) => e.owned).length;
+
+    return {
+      series: prefix,
+      first,
+      last,
+      entries,
+      owned: ownedCount,
+      total: entries.length,
+      percent: entries.length > 0 ? Math.round((ownedCount / entries.length) * 100) : 0,
+      complete,
+    };
+  });
+
+  // Series the user has started come first, then the biggest ones
+  series.sort((a, b) => {
+    const aStarted = a.owned > 0 ? 1 : 0;
+    const bStarted = b.owned > 0 ? 1 : 0;
+    return bStarted - aStarted || b.owned - a.owned || b.total - a.total;
+  });
+
+  return { series, unparsed };
+}
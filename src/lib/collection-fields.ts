@@ -0,0 +1,124 @@
+/**
+ * Collection Custom Fields
+ *
+ * Helpers for the per-instance custom fields Discogs stores on collection
+ * items (media condition, sleeve condition, free-text notes). Safe to use
+ * on both server and client.
+ */
+
+import type { DiscogsCollectionField, DiscogsRelease } from "./discogs";
+
+export type ConditionKind = "media" | "sleeve";
+
+export interface InstanceFields {
+  mediaCondition?: string;
+  sleeveCondition?: string;
+  notes?: string;
+}
+
+// Discogs' default field IDs, used when field definitions aren't available
+const DEFAULT_FIELD_IDS = {
+  media: 1,
+  sleeve: 2,
+  notes: 3,
+};
+
+// Grading scale from best to worst, as Discogs labels it
+export const MEDIA_GRADES = [
+  "Mint (M)",
+  "Near Mint (NM or M-)",
+  "Very Good Plus (VG+)",
+  "Very Good (VG)",
+  "Good Plus (G+)",
+  "Good (G)",
+  "Fair (F)",
+  "Poor (P)",
+];
+
+export const SLEEVE_GRADES = [
+  ...MEDIA_GRADES,
+  "Generic",
+  "Not Graded",
+  "No Cover",
+];
+
+export const UNGRADED = "Ungraded";
+
+/**
+ * Short label for a grade, e.g. "Very Good Plus (VG+)" -> "VG+"
+ */
+export function shortGrade(grade: string): string {
+  const match = grade.match(/\(([^)]+)\)/);
+  return match ? match[1] : grade;
+}
+
+/**
+ * Resolve the field IDs for media, sleeve and notes from the user's field
+ * definitions, falling back to Discogs' defaults.
+ */
+export function resolveFieldIds(fields: DiscogsCollectionField[] = []) {
+  const byName = (pattern: RegExp) =>
+    fields.find((f) => pattern.test(f.name))?.id;
+
+  return {
+    media: byName(/media/i) ?? DEFAULT_FIELD_IDS.media,
+    sleeve: byName(/sleeve/i) ?? DEFAULT_FIELD_IDS.sleeve,
+    notes: byName(/^notes$/i) ?? DEFAULT_FIELD_IDS.notes,
+  };
+}
+
+/**
+ * Parse a collection instance's custom field values
+ */
+export function parseInstanceFields(
+  release: DiscogsRelease,
+  fields?: DiscogsCollectionField[]
+): InstanceFields {
+  const ids = resolveFieldIds(fields);
+  const valueOf = (fieldId: number) =>
+    release.notes?.find((n) => n.field_id === fieldId)?.value.trim() || undefined;
+
+  return {
+    mediaCondition: valueOf(ids.media),
+    sleeveCondition: valueOf(ids.sleeve),
+    notes: valueOf(ids.notes),
+  };
+}
+
+/**
+ * Get the condition grade of a release, or UNGRADED
+ */
+export function getCondition(
+  release: DiscogsRelease,
+  kind: ConditionKind,
+  fields?: DiscogsCollectionField[]
+): string {
+  const parsed = parseInstanceFields(release, fields);
+  const value = kind === "media" ? parsed.mediaCondition : parsed.sleeveCondition;
+  return value || UNGRADED;
+}
+
+/**
+ * Count releases per grade, in grading-scale order. Grades outside the
+ * standard scale are appended, and ungraded items come last.
+ */
+export function getConditionDistribution(
+  releases: DiscogsRelease[],
+  kind: ConditionKind,
+  fields?: DiscogsCollectionField[]
+): Array<{ name: string; grade: string; value: number }> {
+  const counts: Record<string, number> = {};
+  releases.forEach((release) => {
+    const grade = getCondition(release, kind, fields);
+    counts[grade] = (counts[grade] || 0) + 1;
+  });
+
+  const scale = kind === "media" ? MEDIA_GRADES : SLEEVE_GRADES;
+  const custom = Object.keys(counts).filter(
+    (g) => !scale.includes(g) && g !== UNGRADED
+  );
+
+  return [...scale, ...custom, UNGRADED]
+    .filter((grade) => counts[grade])
+    .map((grade) => ({ name: shortGrade(grade), grade, value: counts[grade] }));
+}
@@ -0,0 +1,72 @@
+/**
+ * Collection Stats
+ *
+ * Headline numbers for the DNA overview. Safe to use on both server and
+ * client.
+ */
+
+import type { DiscogsRelease } from "./discogs";
+
+export interface CollectionStats {
+  topGenre: string;
+  topGenrePercent: number;
+  topDecade: string;
+  topDecadePercent: number;
+  topLabel: string;
+  topLabelCount: number;
+}
+
+/**
+ * Top genre, decade and label for the stat cards
+ */
+export function calculateStats(releases: DiscogsRelease[]): CollectionStats | null {
+  if (!releases.length) return null;
+
+  // Genre stats
+  const genreCounts: Record<string, number> = {};
+  releases.forEach((r) => {
+    r.basic_information.genres?.forEach((g) => {
+      genreCounts[g] = (genreCounts[g] || 0) + 1;
+    });
+  });
+  const topGenreEntry = Object.entries(genreCounts).sort((a, b) => b[1] - a[1])[0];
+  const topGenre = topGenreEntry?.[0] || "N/A";
+  const topGenrePercent = topGenreEntry
+    ? Math.round((topGenreEntry[1] / releases.length) * 100)
+    : 0;
+
+  // Decade stats
+  const decadeCounts: Record<string, number> = {};
+  releases.forEach((r) => {
+    const year = r.basic_information.year;
+    if (year && year > 1900) {
+      const decade = `${Math.floor(year / 10) * 10}s`;
+      decadeCounts[decade] = (decadeCounts[decade] || 0) + 1;
+    }
+  });
+  const topDecadeEntry = Object.entries(decadeCounts).sort((a, b) => b[1] - a[1])[0];
+  const topDecade = topDecadeEntry?.[0] || "N/A";
+  const topDecadePercent = topDecadeEntry
+    ? Math.round((topDecadeEntry[1] / releases.length) * 100)
+    : 0;
+
+  // Label stats
+  const labelCounts: Record<string, number> = {};
+  releases.forEach((r) => {
+    r.basic_information.labels?.forEach((l) => {
+      labelCounts[l.name] = (labelCounts[l.name] || 0) + 1;
+    });
+  });
+  const topLabelEntry = Object.entries(labelCounts).sort((a, b) => b[1] - a[1])[0];
+  const topLabel = topLabelEntry?.[0] || "N/A";
+  const topLabelCount = topLabelEntry?.[1] || 0;
+
+  return {
+    topGenre,
+    topGenrePercent,
+    topDecade,
+    topDecadePercent,
+    topLabel,
+    topLabelCount,
+  };
+}
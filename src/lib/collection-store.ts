@@ -0,0 +1,78 @@
+/**
+ * Collection Store
+ *
+ * Server-side storage for users' collections, so a refresh only has to
+ * fetch what changed (see ./collection-sync). Storage sits behind the
+ * CollectionStore interface; the default keeps one JSON file per user in
+ * the data directory (DEEPCOGS_DATA_DIR, ".data" by default). Server-only.
+ */
+
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { DiscogsRelease } from "./discogs";
+
+// Bump when the stored shape changes; older entries are ignored and
+// rebuilt by the next sync
+const STORE_VERSION = 1;
+
+export interface StoredCollection {
+  version: number;
+  username: string;
+  releases: DiscogsRelease[]; // every instance, newest first
+  syncedAt: number; // epoch ms of the last sync of any kind
+  reconciledAt: number; // epoch ms of the last full walk
+}
+
+export interface CollectionStore {
+  get(username: string): Promise<StoredCollection | null>;
+  put(collection: Omit<StoredCollection, "version">): Promise<void>;
+  delete(username: string): Promise<void>;
+}
+
+/**
+ * Store keeping each collection in its own JSON file under dir
+ */
+export function createFileCollectionStore(dir: string): CollectionStore {
+  // Discogs usernames are case-insensitive
+  const fileFor = (username: string) =>
+    path.join(dir, `${encodeURIComponent(username.toLowerCase())}.json`);
+
+  return {
+    async get(username) {
+      try {
+        const stored: StoredCollection = JSON.parse(await readFile(fileFor(username), "utf8"));
+        return stored.version === STORE_VERSION ? stored : null;
+      } catch {
+        // Missing or unreadable, either way there's nothing to reuse
+        return null;
+      }
+    },
+
+    async put(collection) {
+      const file = fileFor(collection.username);
+      const stored: StoredCollection = { ...collection, version: STORE_VERSION };
+
+      // Write then rename, so a crash never leaves a half-written file
+      await mkdir(dir, { recursive: true });
+      const temp = `${file}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(stored));
+      await rename(temp, file);
+    },
+
+    async delete(username) {
+      await rm(fileFor(username), { force: true });
+    },
+  };
+}
+
+let defaultStore: CollectionStore | null = null;
+
+/**
+ * The app's collection store
+ */
+export function getCollectionStore(): CollectionStore {
+  defaultStore ??= createFileCollectionStore(
+    path.join(process.env.DEEPCOGS_DATA_DIR || path.join(process.cwd(), ".data"), "collections")
+  );
+  return defaultStore;
+}
@@ -0,0 +1,81 @@
+/**
+ * Collection Stream
+ *
+ * /api/collection/stream walks a whole collection server-side and sends
+ * it back as NDJSON, one event per line, as pages arrive from Discogs.
+ * This module holds the event types and the browser-side reader, which
+ * yields each page as soon as it's parsed so callers can render partial
+ * results. Safe to use on both server and client.
+ */
+
+import { ApiRequestError, toApiRequestError, type ApiErrorBody } from "./api-errors";
+import type { DiscogsRelease } from "./discogs";
+
+export const NDJSON_CONTENT_TYPE = "application/x-ndjson";
+
+export interface CollectionPageEvent {
+  type: "page";
+  releases: DiscogsRelease[];
+  page: number;
+  pages: number;
+  loaded: number; // releases sent so far, this page included
+  total: number;
+}
+
+export type CollectionStreamEvent =
+  | CollectionPageEvent
+  | { type: "done"; loaded: number }
+  // Failure after the response started; earlier failures are plain error responses
+  | ({ type: "error"; status: number } & ApiErrorBody);
+
+export interface StreamCollectionOptions {
+  folderId?: number;
+  signal?: AbortSignal; // aborting stops the server-side walk too
+}
+
+/**
+ * Stream a user's collection page by page. Throws an ApiRequestError if
+ * the collection can't be loaded, or fails part way through.
+ */
+export async function* streamCollection(
+  username: string,
+  { folderId, signal }: StreamCollectionOptions = {}
+): AsyncGenerator<CollectionPageEvent> {
+  const params = new URLSearchParams({ username });
+  if (folderId !== undefined) params.set("folder", String(folderId));
+
+  const response = await fetch(`/api/collection/stream?${params}`, { signal });
+  if (!response.ok || !response.body) {
+    throw await toApiRequestError(response);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? ""; // last line may be incomplete
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+
+        const event = JSON.parse(line) as CollectionStreamEvent;
+        if (event.type === "error") {
+          throw new ApiRequestError(event.error, event.code, event.status);
+        }
+        if (event.type === "done") return;
+        yield event;
+      }
+    }
+  } finally {
+    // Stops the download if the caller breaks out early
+    reader.cancel().catch(() => {});
+  }
+
+  throw new ApiRequestError("Collection stream ended early", "upstream_error", 502);
+}
@@ -0,0 +1,129 @@
+/**
+ * Collection Sync
+ *
+ * Keeps the stored copy of a user's collection (see ./collection-store)
+ * up to date with as few requests as possible. Discogs lists a collection
+ * newest first, so an incremental sync reads pages only until it reaches
+ * an instance it already has. Removals can't be seen that way: when the
+ * merged count doesn't match Discogs' total, or the last full walk is
+ * older than RECONCILE_INTERVAL, the whole collection is walked again.
+ * Server-only.
+ */
+
+import { getCollectionStore, type CollectionStore } from "./collection-store";
+import {
+  ALL_FOLDERS_ID,
+  MAX_PER_PAGE,
+  type DiscogsClient,
+  type DiscogsRelease,
+} from "./discogs";
+import type { Page } from "./paginate";
+
+// Catches edits made on Discogs itself (ratings, folders, notes), which
+// don't change the order or the count
+const RECONCILE_INTERVAL = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Releases added since the stored copy, merged in front of it. Null when
+ * the result doesn't add up to Discogs' total and a full walk is needed.
+ */
+async function fetchAdded(
+  client: DiscogsClient,
+  username: string,
+  stored: DiscogsRelease[]
+): Promise<DiscogsRelease[] | null> {
+  const known = new Set(stored.map((r) => r.instance_id));
+  const added: DiscogsRelease[] = [];
+  let total = 0;
+
+  // One page at a time: usually the first page already reaches known ground
+  for await (const page of client.iterateCollection(username, ALL_FOLDERS_ID, { concurrency: 1 })) {
+    total = page.total;
+    const firstKnown = page.items.findIndex((r) => known.has(r.instance_id));
+
+    if (firstKnown === -1) {
+      added.push(...page.items);
+      continue;
+    }
+
+    added.push(...page.items.slice(0, firstKnown));
+    break;
+  }
+
+  const releases = [...added, ...stored];
+  return releases.length === total ? releases : null;
+}
+
+/**
+ * Save a synced collection. Failing to save (e.g. a read-only disk) only
+ * costs the next sync its head start, so it doesn't fail the request.
+ */
+async function save(store: CollectionStore, collection: Parameters<CollectionStore["put"]>[0]) {
+  try {
+    await store.put(collection);
+  } catch (error) {
+    console.error(`Failed to store collection of ${collection.username}:`, error);
+  }
+}
+
+/**
+ * Cut a stored collection into pages shaped like the ones from Discogs
+ */
+function* toPages(releases: DiscogsRelease[]): Generator<Page<DiscogsRelease>> {
+  const pages = Math.max(1, Math.ceil(releases.length / MAX_PER_PAGE));
+
+  for (let page = 1; page <= pages; page++) {
+    yield {
+      items: releases.slice((page - 1) * MAX_PER_PAGE, page * MAX_PER_PAGE),
+      page,
+      pages,
+      total: releases.length,
+    };
+  }
+}
+
+/**
+ * Sync a user's whole collection and walk the result page by page. A full
+ * walk yields pages as they arrive from Discogs; the store is updated once
+ * the last page is in, so a walk cut short leaves the old copy in place.
+ */
+export async function* syncCollection(
+  client: DiscogsClient,
+  username: string,
+  store: CollectionStore = getCollectionStore()
+): AsyncGenerator<Page<DiscogsRelease>> {
+  const stored = await store.get(username);
+  const now = Date.now();
+
+  if (stored && now - stored.reconciledAt < RECONCILE_INTERVAL) {
+    const releases = await fetchAdded(client, username, stored.releases);
+
+    if (releases) {
+      await save(store, { ...stored, releases, syncedAt: now });
+      yield* toPages(releases);
+      return;
+    }
+  }
+
+  const releases: DiscogsRelease[] = [];
+  for await (const page of client.iterateCollection(username)) {
+    releases.push(...page.items);
+    yield page;
+  }
+
+  await save(store, { username, releases, syncedAt: now, reconciledAt: now });
+}
+
+/**
+ * Make the next sync walk the whole collection, e.g. after an edit that
+ * an incremental sync wouldn't see
+ */
+export async function requestReconcile(
+  username: string,
+  store: CollectionStore = getCollectionStore()
+) {
+  const stored = await store.get(username);
+  if (stored) {
+    await save(store, { ...stored, reconciledAt: 0 });
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Collection Value History
+ *
+ * Parses the formatted prices returned by the collection value endpoint
+ * and keeps a per-user history of daily snapshots in localStorage so the
+ * dashboard can chart collection worth over time.
+ */
+
+import type { DiscogsCollectionValue } from "./discogs";
+
+export interface CollectionValueSnapshot {
+  date: string; // YYYY-MM-DD
+  minimum: number;
+  median: number;
+  maximum: number;
+  currency: string;
+}
+
+const HISTORY_KEY = "deepcogs_collection_value_history";
+const MAX_SNAPSHOTS = 365;
+
+/**
+ * Parse a formatted price such as "€1,234.56", "1.234,56 €" or "1.234 €".
+ * The collection value endpoint only returns formatted strings, so the
+ * decimal separator has to be worked out from the digits.
+ */
+export function parsePrice(formatted: string): { amount: number; currency: string } {
+  const currency = formatted.replace(/[\d.,\s]/g, "");
+  const digits = formatted.replace(/[^\d.,]/g, "");
+
+  const decimal = findDecimalSeparator(digits);
+  const normalized = decimal
+    ? digits.replace(decimal === "," ? /\./g : /,/g, "").replace(decimal, ".")
+    : digits.replace(/[.,]/g, "");
+
+  return { amount: parseFloat(normalized) || 0, currency };
+}
+
+function findDecimalSeparator(digits: string): "." | "," | null {
+  const lastComma = digits.lastIndexOf(",");
+  const lastDot = digits.lastIndexOf(".");
+
+  // With both, whichever comes last is the decimal point
+  if (lastComma !== -1 && lastDot !== -1) return lastComma > lastDot ? "," : ".";
+
+  const separator = lastComma !== -1 ? "," : lastDot !== -1 ? "." : null;
+  if (!separator) return null;
+
+  // A separator that repeats ("1.234.567") or is followed by a group of
+  // exactly three digits ("1.234", "¥1,234") groups thousands
+  const repeated = digits.indexOf(separator) !== digits.lastIndexOf(separator);
+  const threeDigitGroup = digits.length - digits.lastIndexOf(separator) === 4;
+  return repeated || threeDigitGroup ? null : separator;
+}
+
+type HistoryStore = Record<string, CollectionValueSnapshot[]>;
+
+function loadStore(): HistoryStore {
+  try {
+    const stored = localStorage.getItem(HISTORY_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function loadValueHistory(username: string): CollectionValueSnapshot[] {
+  return loadStore()[username] || [];
+}
+
+/**
+ * Record today's value for a user (replacing any earlier snapshot from
+ * the same day) and return the updated history
+ */
+export function recordCollectionValue(
+  username: string,
+  value: DiscogsCollectionValue
+): CollectionValueSnapshot[] {
+  const median = parsePrice(value.median);
+  const snapshot: CollectionValueSnapshot = {
+    date: new Date().toISOString().slice(0, 10),
+    minimum: parsePrice(value.minimum).amount,
+    median: median.amount,
+    maximum: parsePrice(value.maximum).amount,
+    currency: median.currency,
+  };
+
+  const store = loadStore();
+  const history = (store[username] || [])
+    .filter((s) => s.date !== snapshot.date)
+    .concat(snapshot)
+    .slice(-MAX_SNAPSHOTS);
+
+  try {
+    store[username] = history;
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(store));
+  } catch {
+    // localStorage might be full or disabled
+  }
+
+  return history;
+}
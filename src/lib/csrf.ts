@@ -0,0 +1,33 @@
+/**
+ * CSRF Tokens
+ *
+ * Each session carries a random CSRF token, sealed inside the session
+ * cookie and mirrored in a readable cookie. Client code echoes it back in
+ * a header (or a hidden form field) on mutating requests, and the server
+ * checks it against the sealed copy (see verifyCsrf in ./session). Other
+ * sites can't read the cookie, so they can't forge the header. Safe to
+ * use on both server and client.
+ */
+
+export const CSRF_COOKIE = "deepcogs_csrf";
+export const CSRF_HEADER = "X-CSRF-Token";
+export const CSRF_FIELD = "csrf_token"; // for plain HTML form posts
+
+/**
+ * The current session's CSRF token, read from the readable cookie
+ * (browser only)
+ */
+export function getCsrfToken(): string {
+  const match = document.cookie.match(new RegExp(`(?:^|;\\s*)${CSRF_COOKIE}=([^;]*)`));
+  return match ? decodeURIComponent(match[1]) : "";
+}
+
+/**
+ * Headers for a mutating JSON request to our API
+ */
+export function mutationHeaders(): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    [CSRF_HEADER]: getCsrfToken(),
+  };
+}
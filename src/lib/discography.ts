@@ -0,0 +1,98 @@
+/**
+ * Discography Completion
+ *
+ * Groups an artist's releases by master and checks them against the
+ * user's collection. Safe to use on both server and client.
+ */
+
+import type { DiscogsArtistRelease, DiscogsRelease } from "./discogs";
+
+// Discogs' catch-all "Various" artist, used for compilations
+export const VARIOUS_ARTIST_ID = 194;
+
+export interface DiscographyEntry {
+  key: string;
+  type: "master" | "release";
+  id: number;
+  title: string;
+  year?: number;
+  thumb?: string;
+  format?: string;
+  owned: boolean;
+  wantlistReleaseId: number; // release to add when wanting this entry
+}
+
+export interface Discography {
+  entries: DiscographyEntry[];
+  owned: number;
+  total: number;
+  percent: number;
+}
+
+/**
+ * Artists in a collection with their release counts, most collected first
+ */
+export function getCollectionArtists(releases: DiscogsRelease[]) {
+  const artists = new Map<number, { id: number; name: string; count: number }>();
+
+  releases.forEach((release) => {
+    release.basic_information.artists?.forEach((artist) => {
+      if (!artist.id || artist.id === VARIOUS_ARTIST_ID) return;
+      const existing = artists.get(artist.id);
+      if (existing) {
+        existing.count++;
+      } else {
+        artists.set(artist.id, { id: artist.id, name: artist.name, count: 1 });
+      }
+    });
+  });
+
+  return Array.from(artists.values()).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Build an artist's discography, one entry per master (or per standalone
+ * release), marking which ones the collection already contains
+ */
+export function buildDiscography(
+  artistReleases: DiscogsArtistRelease[],
+  collection: DiscogsRelease[]
+): Discography {
+  const ownedMasters = new Set(
+    collection.map((r) => r.basic_information.master_id).filter(Boolean)
+  );
+  const ownedReleases = new Set(collection.map((r) => r.basic_information.id));
+
+  const seen = new Set<string>();
+  const entries: DiscographyEntry[] = [];
+
+  artistReleases.forEach((item) => {
+    const key = `${item.type}-${item.id}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    entries.push({
+      key,
+      type: item.type,
+      id: item.id,
+      title: item.title,
+      year: item.year,
+      thumb: item.thumb,
+      format: item.format,
+      owned:
+        item.type === "master"
+          ? ownedMasters.has(item.id)
+          : ownedReleases.has(item.id),
+      wantlistReleaseId: item.type === "master" ? item.main_release ?? item.id : item.id,
+    });
+  });
+
+  const owned = entries.filter((e) => e.owned).length;
+
+  return {
+    entries,
+    owned,
+    total: entries.length,
+    percent: entries.length > 0 ? Math.round((owned / entries.length) * 100) : 0,
+  };
+}
@@ -0,0 +1,433 @@
+/**
+ * Discogs Database Models
+ *
+ * Typed models for release, master and search responses, plus runtime
+ * validators. Payloads are checked field by field; anything that doesn't
+ * match throws a DiscogsValidationError naming the offending path.
+ * Unknown fields are dropped so consumers only see what is declared here.
+ */
+
+// ---------------------------------------------------------------------------
+// Models
+// ---------------------------------------------------------------------------
+
+export interface DiscogsPagination {
+  page: number;
+  pages: number;
+  per_page: number;
+  items: number;
+}
+
+export interface DiscogsArtistCredit {
+  id: number;
+  name: string;
+  anv?: string; // artist name variation, as printed on the release
+  join?: string;
+  role?: string;
+  tracks?: string;
+  resource_url?: string;
+}
+
+export interface DiscogsEntity {
+  id: number;
+  name: string;
+  catno?: string;
+  entity_type?: string;
+  entity_type_name?: string;
+  resource_url?: string;
+}
+
+export interface DiscogsFormat {
+  name: string;
+  qty: string;
+  text?: string;
+  descriptions?: string[];
+}
+
+export interface DiscogsTrack {
+  position: string;
+  type_?: string; // "track", "heading" or "index"
+  title: string;
+  duration?: string;
+  artists?: DiscogsArtistCredit[];
+  extraartists?: DiscogsArtistCredit[];
+  sub_tracks?: DiscogsTrack[];
+}
+
+export interface DiscogsIdentifier {
+  type: string; // e.g. "Barcode", "Matrix / Runout"
+  value: string;
+  description?: string;
+}
+
+export interface DiscogsVideo {
+  uri: string;
+  title: string;
+  description?: string;
+  duration?: number;
+  embed?: boolean;
+}
+
+export interface DiscogsImage {
+  type: string; // "primary" or "secondary"
+  uri: string;
+  uri150?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface DiscogsCommunity {
+  have: number;
+  want: number;
+  rating?: { count: number; average: number };
+  status?: string;
+  data_quality?: string;
+}
+
+export interface DiscogsReleaseDetail {
+  id: number;
+  title: string;
+  year?: number;
+  country?: string;
+  released?: string;
+  released_formatted?: string;
+  notes?: string;
+  status?: string;
+  data_quality?: string;
+  master_id?: number;
+  master_url?: string | null;
+  uri?: string;
+  resource_url?: string;
+  thumb?: string;
+  lowest_price?: number | null;
+  num_for_sale?: number;
+  estimated_weight?: number;
+  artists: DiscogsArtistCredit[];
+  extraartists?: DiscogsArtistCredit[];
+  labels: DiscogsEntity[];
+  companies?: DiscogsEntity[];
+  formats?: DiscogsFormat[];
+  genres?: string[];
+  styles?: string[];
+  tracklist?: DiscogsTrack[];
+  identifiers?: DiscogsIdentifier[];
+  videos?: DiscogsVideo[];
+  images?: DiscogsImage[];
+  community?: DiscogsCommunity;
+}
+
+export interface DiscogsMaster {
+  id: number;
+  title: string;
+  year?: number;
+  main_release: number;
+  main_release_url?: string;
+  most_recent_release?: number;
+  versions_url?: string;
+  uri?: string;
+  resource_url?: string;
+  lowest_price?: number | null;
+  num_for_sale?: number;
+  data_quality?: string;
+  artists: DiscogsArtistCredit[];
+  genres?: string[];
+  styles?: string[];
+  tracklist?: DiscogsTrack[];
+  videos?: DiscogsVideo[];
+  images?: DiscogsImage[];
+}
+
+export type DiscogsSearchType = "release" | "master" | "artist" | "label";
+
+export interface DiscogsSearchResult {
+  id: number;
+  type: DiscogsSearchType;
+  title: string;
+  thumb?: string;
+  cover_image?: string;
+  uri?: string;
+  resource_url?: string;
+  master_id?: number | null;
+  master_url?: string | null;
+  year?: string;
+  country?: string;
+  catno?: string;
+  format?: string[];
+  label?: string[];
+  barcode?: string[];
+  genre?: string[];
+  style?: string[];
+  community?: { have: number; want: number };
+}
+
+export interface DiscogsSearchResponse {
+  pagination: DiscogsPagination;
+  results: DiscogsSearchResult[];
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Thrown when a Discogs payload doesn't match the expected model
+ */
+export class DiscogsValidationError extends Error {
+  constructor(
+    public readonly resource: string,
+    public readonly path: string,
+    public readonly expected: string
+  ) {
+    super(`Invalid Discogs ${resource} payload: expected ${expected} at ${path}`);
+    this.name = "DiscogsValidationError";
+  }
+}
+
+type Validator<T> = (value: unknown, path: string, resource: string) => T;
+
+const num: Validator<number> = (value, path, resource) => {
+  if (typeof value !== "number" || isNaN(value)) {
+    throw new DiscogsValidationError(resource, path, "number");
+  }
+  return value;
+};
+
+const str: Validator<string> = (value, path, resource) => {
+  if (typeof value !== "string") {
+    throw new DiscogsValidationError(resource, path, "string");
+  }
+  return value;
+};
+
+const bool: Validator<boolean> = (value, path, resource) => {
+  if (typeof value !== "boolean") {
+    throw new DiscogsValidationError(resource, path, "boolean");
+  }
+  return value;
+};
+
+// Search results report years as strings, but accept numbers too
+const numericString: Validator<string> = (value, path, resource) => {
+  if (typeof value === "number") return String(value);
+  return str(value, path, resource);
+};
+
+function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path, resource) =>
+    value === undefined ? undefined : validator(value, path, resource);
+}
+
+function nullable<T>(validator: Validator<T>): Validator<T | null> {
+  return (value, path, resource) =>
+    value === null ? null : validator(value, path, resource);
+}
+
+function oneOf<T extends string>(values: readonly T[]): Validator<T> {
+  return (value, path, resource) => {
+    if (typeof value !== "string" || !values.includes(value as T)) {
+      throw new DiscogsValidationError(resource, path, values.join(" | "));
+    }
+    return value as T;
+  };
+}
+
+function array<T>(validator: Validator<T>): Validator<T[]> {
+  return (value, path, resource) => {
+    if (!Array.isArray(value)) {
+      throw new DiscogsValidationError(resource, path, "array");
+    }
+    return value.map((item, i) => validator(item, `${path}[${i}]`, resource));
+  };
+}
+
+function object<T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> {
+  return (value, path, resource) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new DiscogsValidationError(resource, path, "object");
+    }
+
+    const input = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      const parsed = shape[key](input[key], `${path}.${key}`, resource);
+      if (parsed !== undefined) result[key] = parsed;
+    }
+
+    return result as T;
+  };
+}
+
+const pagination = object<DiscogsPagination>({
+  page: num,
+  pages: num,
+  per_page: num,
+  items: num,
+});
+
+const artistCredit = object<DiscogsArtistCredit>({
+  id: num,
+  name: str,
+  anv: optional(str),
+  join: optional(str),
+  role: optional(str),
+  tracks: optional(str),
+  resource_url: optional(str),
+});
+
+const entity = object<DiscogsEntity>({
+  id: num,
+  name: str,
+  catno: optional(str),
+  entity_type: optional(str),
+  entity_type_name: optional(str),
+  resource_url: optional(str),
+});
+
+const format = object<DiscogsFormat>({
+  name: str,
+  qty: numericString,
+  text: optional(str),
+  descriptions: optional(array(str)),
+});
+
+const track: Validator<DiscogsTrack> = (value, path, resource) =>
+  object<DiscogsTrack>({
+    position: str,
+    type_: optional(str),
+    title: str,
+    duration: optional(str),
+    artists: optional(array(artistCredit)),
+    extraartists: optional(array(artistCredit)),
+    sub_tracks: optional(array(track)),
+  })(value, path, resource);
+
+const identifier = object<DiscogsIdentifier>({
+  type: str,
+  value: str,
+  description: optional(str),
+});
+
+const video = object<DiscogsVideo>({
+  uri: str,
+  title: str,
+  description: optional(str),
+  duration: optional(num),
+  embed: optional(bool),
+});
+
+const image = object<DiscogsImage>({
+  type: str,
+  uri: str,
+  uri150: optional(str),
+  width: optional(num),
+  height: optional(num),
+});
+
+const community = object<DiscogsCommunity>({
+  have: num,
+  want: num,
+  rating: optional(object<{ count: number; average: number }>({ count: num, average: num })),
+  status: optional(str),
+  data_quality: optional(str),
+});
+
+const releaseDetail = object<DiscogsReleaseDetail>({
+  id: num,
+  title: str,
+  year: optional(num),
+  country: optional(str),
+  released: optional(str),
+  released_formatted: optional(str),
+  notes: optional(str),
+  status: optional(str),
+  data_quality: optional(str),
+  master_id: optional(num),
+  master_url: optional(nullable(str)),
+  uri: optional(str),
+  resource_url: optional(str),
+  thumb: optional(str),
+  lowest_price: optional(nullable(num)),
+  num_for_sale: optional(num),
+  estimated_weight: optional(num),
+  artists: array(artistCredit),
+  extraartists: optional(array(artistCredit)),
+  labels: array(entity),
+  companies: optional(array(entity)),
+  formats: optional(array(format)),
+  genres: optional(array(str)),
+  styles: optional(array(str)),
+  tracklist: optional(array(track)),
+  identifiers: optional(array(identifier)),
+  videos: optional(array(video)),
+  images: optional(array(image)),
+  community: optional(community),
+});
+
+const master = object<DiscogsMaster>({
+  id: num,
+  title: str,
+  year: optional(num),
+  main_release: num,
+  main_release_url: optional(str),
+  most_recent_release: optional(num),
+  versions_url: optional(str),
+  uri: optional(str),
+  resource_url: optional(str),
+  lowest_price: optional(nullable(num)),
+  num_for_sale: optional(num),
+  data_quality: optional(str),
+  artists: array(artistCredit),
+  genres: optional(array(str)),
+  styles: optional(array(str)),
+  tracklist: optional(array(track)),
+  videos: optional(array(video)),
+  images: optional(array(image)),
+});
+
+const searchResult = object<DiscogsSearchResult>({
+  id: num,
+  type: oneOf(["release", "master", "artist", "label"] as const),
+  title: str,
+  thumb: optional(str),
+  cover_image: optional(str),
+  uri: optional(str),
+  resource_url: optional(str),
+  master_id: optional(nullable(num)),
+  master_url: optional(nullable(str)),
+  year: optional(numericString),
+  country: optional(str),
+  catno: optional(str),
+  format: optional(array(str)),
+  label: optional(array(str)),
+  barcode: optional(array(str)),
+  genre: optional(array(str)),
+  style: optional(array(str)),
+  community: optional(object<{ have: number; want: number }>({ have: num, want: num })),
+});
+
+const searchResponse = object<DiscogsSearchResponse>({
+  pagination,
+  results: array(searchResult),
+});
+
+/**
+ * Validate a release detail payload from /releases/{id}
+ */
+export function parseReleaseDetail(value: unknown): DiscogsReleaseDetail {
+  return releaseDetail(value, "$", "release");
+}
+
+/**
+ * Validate a master payload from /masters/{id}
+ */
+export function parseMaster(value: unknown): DiscogsMaster {
+  return master(value, "$", "master");
+}
+
+/**
+ * Validate a search payload from /database/search
+ */
+export function parseSearchResponse(value: unknown): DiscogsSearchResponse {
+  return searchResponse(value, "$", "search");
+}
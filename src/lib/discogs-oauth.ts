@@ -0,0 +1,123 @@
+/**
+ * OAuth 1.0a Signing
+ *
+ * Builds Authorization headers for Discogs' OAuth 1.0a flow, signed with
+ * either PLAINTEXT (relies on TLS end to end) or HMAC-SHA1 (RFC 5849,
+ * safe behind proxies that terminate TLS). The method is picked per
+ * deployment with DISCOGS_OAUTH_SIGNATURE_METHOD. Server-only.
+ */
+
+import { createHmac, randomBytes } from "node:crypto";
+
+export type OAuthSignatureMethod = "PLAINTEXT" | "HMAC-SHA1";
+
+export interface OAuthRequest {
+  method: string;
+  url: string; // including any query string, which is signed too
+  consumerKey: string;
+  consumerSecret: string;
+  token?: string;
+  tokenSecret?: string;
+  verifier?: string;
+  signatureMethod?: OAuthSignatureMethod;
+}
+
+const DEFAULT_SIGNATURE_METHOD: OAuthSignatureMethod = "PLAINTEXT";
+
+/**
+ * Signature method configured for this deployment
+ */
+export function getSignatureMethod(): OAuthSignatureMethod {
+  const configured = process.env.DISCOGS_OAUTH_SIGNATURE_METHOD?.toUpperCase();
+  if (!configured) return DEFAULT_SIGNATURE_METHOD;
+  if (configured === "PLAINTEXT" || configured === "HMAC-SHA1") return configured;
+  throw new Error(
+    `Unsupported DISCOGS_OAUTH_SIGNATURE_METHOD "${configured}", use PLAINTEXT or HMAC-SHA1`
+  );
+}
+
+/**
+ * RFC 3986 percent-encoding, which also escapes !'()*
+ */
+export function percentEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function generateNonce(): string {
+  return randomBytes(16).toString("hex");
+}
+
+/**
+ * Signature base string: METHOD&base-url&normalized-params, where params
+ * are the oauth_* values plus the URL's query parameters (RFC 5849 3.4.1)
+ */
+export function buildSignatureBaseString(
+  method: string,
+  url: string,
+  oauthParams: Record<string, string>
+): string {
+  // URL already lowercases scheme and host and drops default ports
+  const parsed = new URL(url);
+  const baseUrl = `${parsed.protocol}//${parsed.host}${parsed.pathname}`;
+
+  const params: Array<[string, string]> = [
+    ...Array.from(parsed.searchParams.entries()),
+    ...Object.entries(oauthParams),
+  ].map(([key, value]) => [percentEncode(key), percentEncode(value)]);
+
+  params.sort(([aKey, aValue], [bKey, bValue]) =>
+    aKey === bKey ? (aValue < bValue ? -1 : aValue > bValue ? 1 : 0) : aKey < bKey ? -1 : 1
+  );
+
+  const normalized = params.map(([key, value]) => `${key}=${value}`).join("&");
+
+  return [method.toUpperCase(), percentEncode(baseUrl), percentEncode(normalized)].join("&");
+}
+
+/**
+ * Create an OAuth 1.0a Authorization header
+ */
+export function createOAuthHeader({
+  method,
+  url,
+  consumerKey,
+  consumerSecret,
+  token,
+  tokenSecret,
+  verifier,
+  signatureMethod = getSignatureMethod(),
+}: OAuthRequest): string {
+  const params: Record<string, string> = {
+    oauth_consumer_key: consumerKey,
+    oauth_nonce: generateNonce(),
+    oauth_signature_method: signatureMethod,
+    oauth_timestamp: Math.floor(Date.now() / 1000).toString(),
+    oauth_version: "1.0",
+  };
+
+  if (token) {
+    params.oauth_token = token;
+  }
+
+  if (verifier) {
+    params.oauth_verifier = verifier;
+  }
+
+  const signingKey = `${percentEncode(consumerSecret)}&${percentEncode(tokenSecret || "")}`;
+
+  params.oauth_signature =
+    signatureMethod === "HMAC-SHA1"
+      ? createHmac("sha1", signingKey)
+          .update(buildSignatureBaseString(method, url, params))
+          .digest("base64")
+      : signingKey;
+
+  const headerParts = Object.entries(params)
+    .map(([key, value]) => `${key}="${percentEncode(value)}"`)
+    .join(", ");
+
+  return `OAuth ${headerParts}`;
+}
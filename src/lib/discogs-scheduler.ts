@@ -0,0 +1,231 @@
+/**
+ * Discogs Request Scheduler
+ *
+ * Queues outgoing Discogs API requests and paces them using the
+ * X-Discogs-Ratelimit-* response headers. Throttled (429) responses are
+ * retried with exponential backoff, as are server errors (5xx) on
+ * idempotent requests: a POST that failed with a 5xx may still have gone
+ * through upstream (e.g. added a collection instance), so it isn't repeated.
+ */
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000; // Discogs uses a moving 60s window
+const DEFAULT_RATE_LIMIT = 60;
+const DEFAULT_MAX_CONCURRENT = 2;
+const DEFAULT_MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30 * 1000;
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE"]);
+
+export interface RateLimitState {
+  limit: number;
+  used: number;
+  remaining: number;
+  queued: number;
+  inFlight: number;
+  waiting: boolean; // true while requests are held back for the rate limit
+  resumeAt: number | null; // epoch ms when held requests will resume
+}
+
+export interface SchedulerOptions {
+  maxConcurrent?: number;
+  maxRetries?: number;
+}
+
+interface QueuedRequest {
+  url: string;
+  buildInit: () => RequestInit;
+  resolve: (response: Response) => void;
+  reject: (error: unknown) => void;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function shouldRetry(status: number, method = "GET"): boolean {
+  if (status === 429) return true; // throttled, never processed
+  return status >= 500 && IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * Delay before the next attempt: honours Retry-After when present,
+ * otherwise backs off exponentially with a little jitter.
+ */
+function getBackoffDelay(attempt: number, response?: Response): number {
+  const retryAfter = response?.headers.get("Retry-After");
+  if (retryAfter) {
+    const seconds = parseInt(retryAfter, 10);
+    if (!isNaN(seconds)) return Math.min(seconds * 1000, MAX_BACKOFF_MS);
+  }
+
+  const exponential = BASE_BACKOFF_MS * 2 ** attempt;
+  const jitter = Math.random() * BASE_BACKOFF_MS;
+  return Math.min(exponential + jitter, MAX_BACKOFF_MS);
+}
+
+/**
+ * Create a request scheduler. Requests are dispatched in FIFO order with at
+ * most `maxConcurrent` in flight, and held back while the rate limit window
+ * is exhausted.
+ */
+export function createRequestScheduler(options: SchedulerOptions = {}) {
+  const maxConcurrent = options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  const queue: QueuedRequest[] = [];
+  const listeners = new Set<(state: RateLimitState) => void>();
+  let sentAt: number[] = []; // timestamps of requests sent in the current window
+  let limit = DEFAULT_RATE_LIMIT;
+  let used = 0;
+  let remaining = DEFAULT_RATE_LIMIT;
+  let inFlight = 0;
+  let resumeAt: number | null = null;
+  let pumping = false;
+
+  function getState(): RateLimitState {
+    return {
+      limit,
+      used,
+      remaining,
+      queued: queue.length,
+      inFlight,
+      waiting: resumeAt !== null && resumeAt > Date.now(),
+      resumeAt,
+    };
+  }
+
+  function notify() {
+    const state = getState();
+    listeners.forEach((listener) => listener(state));
+  }
+
+  function updateFromHeaders(response: Response) {
+    const headerLimit = response.headers.get("X-Discogs-Ratelimit");
+    const headerUsed = response.headers.get("X-Discogs-Ratelimit-Used");
+    const headerRemaining = response.headers.get("X-Discogs-Ratelimit-Remaining");
+
+    if (headerLimit) limit = parseInt(headerLimit, 10) || limit;
+    if (headerUsed) used = parseInt(headerUsed, 10) || 0;
+    if (headerRemaining) {
+      const parsed = parseInt(headerRemaining, 10);
+      if (!isNaN(parsed)) remaining = parsed;
+    }
+  }
+
+  /**
+   * How long to hold the next request, or 0 if it can go now.
+   */
+  function getWaitTime(): number {
+    const now = Date.now();
+    sentAt = sentAt.filter((t) => now - t < RATE_LIMIT_WINDOW_MS);
+
+    if (remaining > 0 && sentAt.length < limit) return 0;
+
+    // Wait for our oldest request to leave the window. If the budget was
+    // used elsewhere (no local history), probe again after one slot.
+    if (sentAt.length > 0) {
+      return sentAt[0] + RATE_LIMIT_WINDOW_MS - now;
+    }
+    return RATE_LIMIT_WINDOW_MS / limit;
+  }
+
+  /**
+   * Wait until the window has room, then count a request against it.
+   * Retries go through here too, so they're paced like new requests.
+   */
+  async function acquireSlot() {
+    for (let wait = getWaitTime(); wait > 0; wait = getWaitTime()) {
+      resumeAt = Date.now() + wait;
+      notify();
+      await sleep(wait);
+      // Allow a probe request once the wait is over
+      remaining = Math.max(remaining, 1);
+    }
+
+    resumeAt = null;
+    sentAt.push(Date.now());
+    remaining--;
+  }
+
+  async function execute(request: QueuedRequest) {
+    let attempt = 0;
+
+    try {
+      while (true) {
+        const init = request.buildInit();
+        const response = await fetch(request.url, init);
+        updateFromHeaders(response);
+
+        if (!shouldRetry(response.status, init.method) || attempt >= maxRetries) {
+          request.resolve(response);
+          return;
+        }
+
+        const delay = getBackoffDelay(attempt, response);
+        if (response.status === 429) {
+          remaining = 0;
+          resumeAt = Date.now() + delay;
+          notify();
+        }
+        attempt++;
+        await sleep(delay);
+        await acquireSlot();
+      }
+    } catch (error) {
+      request.reject(error);
+    } finally {
+      inFlight--;
+      notify();
+      pump();
+    }
+  }
+
+  async function pump() {
+    if (pumping) return;
+    pumping = true;
+
+    try {
+      while (queue.length > 0 && inFlight < maxConcurrent) {
+        // Only pump takes from the queue, so it's still non-empty after the wait
+        await acquireSlot();
+        const request = queue.shift()!;
+        inFlight++;
+        notify();
+        execute(request);
+      }
+    } finally {
+      pumping = false;
+    }
+  }
+
+  return {
+    /**
+     * Queue a request. `buildInit` is called for every attempt so that
+     * per-request headers (e.g. OAuth nonces) are regenerated on retry.
+     */
+    schedule(url: string, buildInit: () => RequestInit): Promise<Response> {
+      return new Promise<Response>((resolve, reject) => {
+        queue.push({ url, buildInit, resolve, reject });
+        notify();
+        pump();
+      });
+    },
+
+    getState,
+
+    /**
+     * Subscribe to queue state changes. Returns an unsubscribe function.
+     */
+    subscribe(listener: (state: RateLimitState) => void): () => void {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+export type RequestScheduler = ReturnType<typeof createRequestScheduler>;
+
+/**
+ * Shared scheduler for all Discogs clients in this process
+ */
+export const discogsScheduler = createRequestScheduler();
@@ -1,15 +1,70 @@
 /**
  * Discogs API Client
  *
- * Handles OAuth 1.0a authentication and API requests to Discogs.
- * Rate limit: 60 requests/minute (authenticated)
+ * Handles authentication and API requests to Discogs. Requests can be made
+ * as an OAuth 1.0a user, with a personal access token, with the app's
+ * key/secret or anonymously (see DiscogsAuth).
+ * Rate limit: 60 requests/minute (authenticated). All requests go through
+ * the shared scheduler in ./discogs-scheduler, which paces and retries them.
  */
 
+import { createOAuthHeader } from "./discogs-oauth";
+import { discogsScheduler } from "./discogs-scheduler";
+import { collectItems, paginate, type PaginateOptions, type PageResult } from "./paginate";
+import {
+  parseMaster,
+  parseReleaseDetail,
+  parseSearchResponse,
+  type DiscogsMaster,
+  type DiscogsPagination,
+  type DiscogsReleaseDetail,
+  type DiscogsSearchResponse,
+} from "./discogs-models";
+
+export type {
+  DiscogsArtistCredit,
+  DiscogsCommunity,
+  DiscogsEntity,
+  DiscogsFormat,
+  DiscogsIdentifier,
+  DiscogsImage,
+  DiscogsMaster,
+  DiscogsPagination,
+  DiscogsReleaseDetail,
+  DiscogsSearchResponse,
+  DiscogsSearchResult,
+  DiscogsSearchType,
+  DiscogsTrack,
+  DiscogsVideo,
+} from "./discogs-models";
+export { DiscogsValidationError } from "./discogs-models";
+
 const DISCOGS_API_BASE = "https://api.discogs.com";
 const DISCOGS_REQUEST_TOKEN_URL = "https://api.discogs.com/oauth/request_token";
 const DISCOGS_AUTHORIZE_URL = "https://www.discogs.com/oauth/authorize";
 const DISCOGS_ACCESS_TOKEN_URL = "https://api.discogs.com/oauth/access_token";
 
+// Largest page size Discogs allows, used when walking every page
+export const MAX_PER_PAGE = 100;
+
+/**
+ * Thrown when Discogs answers with an error status (401 bad credentials,
+ * 403 private, 404 not found, 429 rate limited, ...)
+ */
+export class DiscogsApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly body: string
+  ) {
+    super(`Discogs API error: ${status} - ${body}`);
+    this.name = "DiscogsApiError";
+  }
+}
+
+function toPageResult<T>(pagination: DiscogsPagination, items: T[]): PageResult<T> {
+  return { items, pages: pagination.pages, total: pagination.items };
+}
+
 export interface DiscogsUser {
   id: number;
   username: string;
@@ -24,8 +79,10 @@ export interface DiscogsUser {
 export interface DiscogsRelease {
   id: number;
   instance_id: number;
+  folder_id?: number; // present on collection items, not on wants
   date_added: string;
   rating: number;
+  notes?: Array<{ field_id: number; value: string }>; // custom field values
   basic_information: {
     id: number;
     master_id: number;
@@ -55,74 +112,188 @@ export interface DiscogsRelease {
   };
 }
 
-export interface DiscogsCollection {
-  pagination: {
-    page: number;
-    pages: number;
-    per_page: number;
-    items: number;
-  };
-  releases: DiscogsRelease[];
+export interface DiscogsFolder {
+  id: number;
+  name: string;
+  count: number;
+  resource_url: string;
 }
 
-export interface OAuthTokens {
-  oauth_token: string;
-  oauth_token_secret: string;
+export interface DiscogsCollectionField {
+  id: number;
+  name: string;
+  type: "dropdown" | "textarea";
+  options?: string[]; // dropdown choices, e.g. condition grades
+  lines?: number; // textarea height
+  position: number;
+  public: boolean;
 }
 
-export interface AccessTokens extends OAuthTokens {
-  username?: string;
+export interface DiscogsMasterVersion {
+  id: number;
+  title: string;
+  status?: string;
+  format?: string;
+  major_formats?: string[];
+  label?: string;
+  catno?: string;
+  country?: string;
+  released?: string; // year, or a partial date like "1977-05-00"
+  thumb?: string;
+  resource_url?: string;
 }
 
-/**
- * Generate OAuth 1.0a signature base string
- */
-function generateNonce(): string {
-  return Math.random().toString(36).substring(2) + Date.now().toString(36);
+export interface DiscogsArtistRelease {
+  id: number; // master ID when type is "master", release ID otherwise
+  type: "master" | "release";
+  main_release?: number; // for masters: the release to add to a wantlist
+  title: string;
+  artist: string;
+  role: string; // "Main", "Remix", "Appearance", "TrackAppearance", ...
+  year?: number;
+  thumb?: string;
+  format?: string;
+  label?: string;
+  status?: string;
+  resource_url: string;
 }
 
-/**
- * Create OAuth 1.0a Authorization header
- */
-function createOAuthHeader(
-  method: string,
-  url: string,
-  consumerKey: string,
-  consumerSecret: string,
-  token?: string,
-  tokenSecret?: string,
-  verifier?: string
-): string {
-  const timestamp = Math.floor(Date.now() / 1000).toString();
-  const nonce = generateNonce();
-
-  const params: Record<string, string> = {
-    oauth_consumer_key: consumerKey,
-    oauth_nonce: nonce,
-    oauth_signature_method: "PLAINTEXT",
-    oauth_timestamp: timestamp,
-    oauth_version: "1.0",
+export interface DiscogsLabelRef {
+  id: number;
+  name: string;
+  resource_url: string;
+}
+
+export interface DiscogsLabel {
+  id: number;
+  name: string;
+  profile?: string;
+  parent_label?: DiscogsLabelRef;
+  sublabels?: DiscogsLabelRef[];
+  uri?: string;
+  resource_url: string;
+}
+
+export interface DiscogsLabelRelease {
+  id: number;
+  title: string;
+  artist: string;
+  catno: string;
+  year?: number; // 0 when unknown
+  thumb?: string;
+  format?: string;
+  status?: string;
+  resource_url: string;
+}
+
+export interface DiscogsListSummary {
+  id: number;
+  name: string;
+  description?: string;
+  public: boolean;
+  date_added: string;
+  date_changed: string;
+  uri: string;
+  resource_url: string;
+  image_url?: string;
+}
+
+export interface DiscogsListItem {
+  id: number; // release, master, artist or label ID depending on type
+  type: "release" | "master" | "artist" | "label";
+  display_title: string;
+  comment?: string;
+  uri: string;
+  resource_url: string;
+  image_url?: string;
+}
+
+export interface DiscogsList extends DiscogsListSummary {
+  user: { id: number; username: string; resource_url: string };
+  items: DiscogsListItem[];
+}
+
+export interface DiscogsListing {
+  id: number;
+  status: string; // "For Sale", "Draft", "Expired", ...
+  condition: string;
+  sleeve_condition?: string;
+  comments?: string;
+  price: { value: number; currency: string };
+  posted: string;
+  uri: string;
+  resource_url: string;
+  release: {
+    id: number;
+    description: string; // "Artist - Title (Format)"
+    title?: string;
+    artist?: string;
+    year?: number;
+    format?: string;
+    catalog_number?: string;
+    thumb?: string;
+    resource_url: string;
   };
+}
 
-  if (token) {
-    params.oauth_token = token;
-  }
+// A wantlist entry; notes are only returned to the wantlist's owner
+export interface DiscogsWant {
+  id: number;
+  rating: number;
+  notes?: string;
+  date_added: string;
+  basic_information: DiscogsRelease["basic_information"];
+}
 
-  if (verifier) {
-    params.oauth_verifier = verifier;
-  }
+export interface DiscogsWantDetails {
+  notes?: string;
+  rating?: number; // 0-5, 0 clears it
+}
 
-  // PLAINTEXT signature = consumer_secret&token_secret
-  const signature = `${encodeURIComponent(consumerSecret)}&${
-    tokenSecret ? encodeURIComponent(tokenSecret) : ""
-  }`;
-  params.oauth_signature = signature;
+// Formatted prices in the user's currency, e.g. "€1,234.56"
+export interface DiscogsCollectionValue {
+  minimum: string;
+  median: string;
+  maximum: string;
+}
+
+// Folder 0 ("All") contains every release in the collection
+export const ALL_FOLDERS_ID = 0;
 
-  const headerParts = Object.entries(params)
-    .map(([key, value]) => `${key}="${encodeURIComponent(value)}"`)
-    .join(", ");
+// Folder 1 ("Uncategorized") is where Discogs puts releases by default
+export const UNCATEGORIZED_FOLDER_ID = 1;
 
-  return `OAuth ${headerParts}`;
+export interface DiscogsCollection {
+  pagination: DiscogsPagination;
+  releases: DiscogsRelease[];
+}
+
+export interface DiscogsSearchOptions {
+  format?: string;
+  sort?: "year" | "title" | "have" | "want";
+  sort_order?: "asc" | "desc";
+}
+
+function buildSearchQuery(
+  query: string,
+  type?: string,
+  options?: DiscogsSearchOptions
+): string {
+  const params = new URLSearchParams({ q: query });
+  if (type) params.append("type", type);
+  if (options?.format) params.append("format", options.format);
+  if (options?.sort) params.append("sort", options.sort);
+  if (options?.sort_order) params.append("sort_order", options.sort_order);
+  return params.toString();
+}
+
+export interface OAuthTokens {
+  oauth_token: string;
+  oauth_token_secret: string;
+}
+
+export interface AccessTokens extends OAuthTokens {
+  username?: string;
 }
 
 /**
@@ -133,25 +304,25 @@ export async function getRequestToken(
   consumerSecret: string,
   callbackUrl: string
 ): Promise<OAuthTokens> {
-  const authHeader = createOAuthHeader(
-    "GET",
-    DISCOGS_REQUEST_TOKEN_URL,
-    consumerKey,
-    consumerSecret
-  );
+  const url = `${DISCOGS_REQUEST_TOKEN_URL}?oauth_callback=${encodeURIComponent(
+    callbackUrl
+  )}`;
 
-  const response = await fetch(
-    `${DISCOGS_REQUEST_TOKEN_URL}?oauth_callback=${encodeURIComponent(
-      callbackUrl
-    )}`,
-    {
+  const response = await discogsScheduler.schedule(
+    url,
+    () => ({
       method: "GET",
       headers: {
-        Authorization: authHeader,
+        Authorization: createOAuthHeader({
+          method: "GET",
+          url,
+          consumerKey,
+          consumerSecret,
+        }),
         "Content-Type": "application/x-www-form-urlencoded",
         "User-Agent": "DeepCogs/1.0",
       },
-    }
+    })
   );
 
   if (!response.ok) {
@@ -185,25 +356,26 @@ export async function getAccessToken(
   oauthTokenSecret: string,
   verifier: string
 ): Promise<AccessTokens> {
-  const authHeader = createOAuthHeader(
-    "POST",
+  const response = await discogsScheduler.schedule(
     DISCOGS_ACCESS_TOKEN_URL,
-    consumerKey,
-    consumerSecret,
-    oauthToken,
-    oauthTokenSecret,
-    verifier
+    () => ({
+      method: "POST",
+      headers: {
+        Authorization: createOAuthHeader({
+          method: "POST",
+          url: DISCOGS_ACCESS_TOKEN_URL,
+          consumerKey,
+          consumerSecret,
+          token: oauthToken,
+          tokenSecret: oauthTokenSecret,
+          verifier,
+        }),
+        "Content-Type": "application/x-www-form-urlencoded",
+        "User-Agent": "DeepCogs/1.0",
+      },
+    })
   );
 
-  const response = await fetch(DISCOGS_ACCESS_TOKEN_URL, {
-    method: "POST",
-    headers: {
-      Authorization: authHeader,
-      "Content-Type": "application/x-www-form-urlencoded",
-      "User-Agent": "DeepCogs/1.0",
-    },
-  });
-
   if (!response.ok) {
     const text = await response.text();
     throw new Error(`Failed to get access token: ${text}`);
@@ -219,50 +391,121 @@ export async function getAccessToken(
 }
 
 /**
- * Create an authenticated Discogs API client
+ * How requests are authenticated:
+ * - oauth: a user's OAuth 1.0a access token, full access to their account
+ * - token: a user's personal access token, same access as OAuth
+ * - key: the app's consumer key/secret, public data with image URLs and
+ *   the authenticated rate limit
+ * - anonymous: public data only, lowest rate limit
  */
-export function createDiscogsClient(
-  consumerKey: string,
-  consumerSecret: string,
-  accessToken: string,
-  accessTokenSecret: string
-) {
+export type DiscogsAuth =
+  | {
+      type: "oauth";
+      consumerKey: string;
+      consumerSecret: string;
+      accessToken: string;
+      accessTokenSecret: string;
+    }
+  | { type: "token"; token: string }
+  | { type: "key"; consumerKey: string; consumerSecret: string }
+  | { type: "anonymous" };
+
+/**
+ * Pick the strongest auth strategy the given credentials allow
+ */
+export function resolveDiscogsAuth(credentials: {
+  consumerKey?: string;
+  consumerSecret?: string;
+  accessToken?: string;
+  accessTokenSecret?: string;
+}): DiscogsAuth {
+  const { consumerKey, consumerSecret, accessToken, accessTokenSecret } = credentials;
+
+  if (consumerKey && consumerSecret && accessToken && accessTokenSecret) {
+    return { type: "oauth", consumerKey, consumerSecret, accessToken, accessTokenSecret };
+  }
+  if (consumerKey && consumerSecret) {
+    return { type: "key", consumerKey, consumerSecret };
+  }
+  return { type: "anonymous" };
+}
+
+function createAuthorizationHeader(
+  auth: DiscogsAuth,
+  method: string,
+  url: string
+): string | undefined {
+  switch (auth.type) {
+    case "oauth":
+      return createOAuthHeader({
+        method,
+        url,
+        consumerKey: auth.consumerKey,
+        consumerSecret: auth.consumerSecret,
+        token: auth.accessToken,
+        tokenSecret: auth.accessTokenSecret,
+      });
+    case "token":
+      return `Discogs token=${auth.token}`;
+    case "key":
+      return `Discogs key=${auth.consumerKey}, secret=${auth.consumerSecret}`;
+    case "anonymous":
+      return undefined;
+  }
+}
+
+/**
+ * Create a Discogs API client. Every method is available with any auth
+ * strategy; account methods throw unless the auth identifies a user, and
+ * private data is only returned to its owner.
+ */
+export function createDiscogsClient(auth: DiscogsAuth) {
   async function makeRequest<T>(
     endpoint: string,
-    method: string = "GET"
+    method: string = "GET",
+    body?: object
   ): Promise<T> {
     const url = `${DISCOGS_API_BASE}${endpoint}`;
-    const authHeader = createOAuthHeader(
-      method,
-      url,
-      consumerKey,
-      consumerSecret,
-      accessToken,
-      accessTokenSecret
-    );
-
-    const response = await fetch(url, {
-      method,
-      headers: {
-        Authorization: authHeader,
-        "User-Agent": "DeepCogs/1.0",
-        Accept: "application/json",
-      },
+
+    const response = await discogsScheduler.schedule(url, () => {
+      const authorization = createAuthorizationHeader(auth, method, url);
+      return {
+        method,
+        headers: {
+          ...(authorization && { Authorization: authorization }),
+          "User-Agent": "DeepCogs/1.0",
+          Accept: "application/json",
+          ...(body && { "Content-Type": "application/json" }),
+        },
+        body: body && JSON.stringify(body),
+      };
     });
 
     if (!response.ok) {
       const text = await response.text();
-      throw new Error(`Discogs API error: ${response.status} - ${text}`);
+      throw new DiscogsApiError(response.status, text);
+    }
+
+    // Edits and deletes answer with an empty 204
+    if (response.status === 204) {
+      return undefined as T;
     }
 
     return response.json();
   }
 
+  function requireUser(action: string): void {
+    if (auth.type !== "oauth" && auth.type !== "token") {
+      throw new Error(`Discogs ${action} requires a signed-in user`);
+    }
+  }
+
   return {
     /**
      * Get the authenticated user's identity
      */
     async getIdentity(): Promise<DiscogsUser> {
+      requireUser("identity");
       return makeRequest<DiscogsUser>("/oauth/identity");
     },
 
@@ -273,12 +516,32 @@ export function createDiscogsClient(
       return makeRequest<DiscogsUser>(`/users/${username}`);
     },
 
+    /**
+     * Get a user's collection folders
+     */
+    async getFolders(username: string): Promise<DiscogsFolder[]> {
+      const response = await makeRequest<{ folders: DiscogsFolder[] }>(
+        `/users/${username}/collection/folders`
+      );
+      return response.folders;
+    },
+
+    /**
+     * Get a user's collection custom field definitions
+     */
+    async getCollectionFields(username: string): Promise<DiscogsCollectionField[]> {
+      const response = await makeRequest<{ fields: DiscogsCollectionField[] }>(
+        `/users/${username}/collection/fields`
+      );
+      return response.fields;
+    },
+
     /**
      * Get a user's collection (paginated)
      */
     async getCollection(
       username: string,
-      folderId: number = 0,
+      folderId: number = ALL_FOLDERS_ID,
       page: number = 1,
       perPage: number = 50
     ): Promise<DiscogsCollection> {
@@ -288,27 +551,38 @@ export function createDiscogsClient(
     },
 
     /**
-     * Get all releases from a user's collection
+     * Walk a user's collection folder page by page
+     */
+    iterateCollection(
+      username: string,
+      folderId: number = ALL_FOLDERS_ID,
+      options?: PaginateOptions
+    ) {
+      return paginate(async (page) => {
+        const response = await this.getCollection(username, folderId, page, MAX_PER_PAGE);
+        return toPageResult(response.pagination, response.releases);
+      }, options);
+    },
+
+    /**
+     * Get all releases from a user's collection folder
+     */
+    async getAllCollection(
+      username: string,
+      folderId: number = ALL_FOLDERS_ID,
+      options?: PaginateOptions
+    ): Promise<DiscogsRelease[]> {
+      return collectItems(this.iterateCollection(username, folderId, options));
+    },
+
+    /**
+     * Get the estimated value of a user's collection (owner only)
      */
-    async getAllCollection(username: string): Promise<DiscogsRelease[]> {
-      const allReleases: DiscogsRelease[] = [];
-      let page = 1;
-      let hasMore = true;
-
-      while (hasMore) {
-        const response = await this.getCollection(username, 0, page, 100);
-        allReleases.push(...response.releases);
-
-        if (page >= response.pagination.pages) {
-          hasMore = false;
-        } else {
-          page++;
-          // Small delay to respect rate limits
-          await new Promise((resolve) => setTimeout(resolve, 100));
-        }
-      }
-
-      return allReleases;
+    async getCollectionValue(username: string): Promise<DiscogsCollectionValue> {
+      requireUser("collection value");
+      return makeRequest<DiscogsCollectionValue>(
+        `/users/${username}/collection/value`
+      );
     },
 
     /**
@@ -319,8 +593,8 @@ export function createDiscogsClient(
       page: number = 1,
       perPage: number = 50
     ): Promise<{
-      pagination: DiscogsCollection["pagination"];
-      wants: DiscogsRelease[];
+      pagination: DiscogsPagination;
+      wants: DiscogsWant[];
     }> {
       return makeRequest(
         `/users/${username}/wants?page=${page}&per_page=${perPage}`
@@ -328,40 +602,197 @@ export function createDiscogsClient(
     },
 
     /**
-     * Get release details
+     * Walk a user's wantlist page by page
+     */
+    iterateWantlist(username: string, options?: PaginateOptions) {
+      return paginate(async (page) => {
+        const response = await this.getWantlist(username, page, MAX_PER_PAGE);
+        return toPageResult(response.pagination, response.wants);
+      }, options);
+    },
+
+    /**
+     * Get a seller's marketplace inventory (paginated)
+     */
+    async getInventory(
+      username: string,
+      page: number = 1,
+      perPage: number = 50
+    ): Promise<{
+      pagination: DiscogsPagination;
+      listings: DiscogsListing[];
+    }> {
+      return makeRequest(
+        `/users/${username}/inventory?page=${page}&per_page=${perPage}&sort=listed&sort_order=desc`
+      );
+    },
+
+    /**
+     * Walk a seller's inventory page by page
+     */
+    iterateInventory(username: string, options?: PaginateOptions) {
+      return paginate(async (page) => {
+        const response = await this.getInventory(username, page, MAX_PER_PAGE);
+        return toPageResult(response.pagination, response.listings);
+      }, options);
+    },
+
+    /**
+     * Get release details (validated)
+     */
+    async getRelease(releaseId: number): Promise<DiscogsReleaseDetail> {
+      return parseReleaseDetail(await makeRequest(`/releases/${releaseId}`));
+    },
+
+    /**
+     * Get master release details (validated)
+     */
+    async getMaster(masterId: number): Promise<DiscogsMaster> {
+      return parseMaster(await makeRequest(`/masters/${masterId}`));
+    },
+
+    /**
+     * Get all versions (pressings) of a master release (paginated, earliest
+     * release date first)
+     */
+    async getMasterVersions(
+      masterId: number,
+      page: number = 1,
+      perPage: number = 100
+    ): Promise<{
+      pagination: DiscogsPagination;
+      versions: DiscogsMasterVersion[];
+    }> {
+      return makeRequest(
+        `/masters/${masterId}/versions?page=${page}&per_page=${perPage}&sort=released&sort_order=asc`
+      );
+    },
+
+    /**
+     * Walk a master's versions page by page
+     */
+    iterateMasterVersions(masterId: number, options?: PaginateOptions) {
+      return paginate(async (page) => {
+        const response = await this.getMasterVersions(masterId, page, MAX_PER_PAGE);
+        return toPageResult(response.pagination, response.versions);
+      }, options);
+    },
+
+    /**
+     * Get an artist's releases and masters (paginated, oldest first)
+     */
+    async getArtistReleases(
+      artistId: number,
+      page: number = 1,
+      perPage: number = 100
+    ): Promise<{
+      pagination: DiscogsPagination;
+      releases: DiscogsArtistRelease[];
+    }> {
+      return makeRequest(
+        `/artists/${artistId}/releases?page=${page}&per_page=${perPage}&sort=year&sort_order=asc`
+      );
+    },
+
+    /**
+     * Walk an artist's releases page by page
+     */
+    iterateArtistReleases(artistId: number, options?: PaginateOptions) {
+      return paginate(async (page) => {
+        const response = await this.getArtistReleases(artistId, page, MAX_PER_PAGE);
+        return toPageResult(response.pagination, response.releases);
+      }, options);
+    },
+
+    /**
+     * Get a user's lists (paginated, private ones only for the owner)
+     */
+    async getUserLists(
+      username: string,
+      page: number = 1,
+      perPage: number = 100
+    ): Promise<{
+      pagination: DiscogsPagination;
+      lists: DiscogsListSummary[];
+    }> {
+      return makeRequest(`/users/${username}/lists?page=${page}&per_page=${perPage}`);
+    },
+
+    /**
+     * Get a list and all of its items
+     */
+    async getList(listId: number): Promise<DiscogsList> {
+      return makeRequest(`/lists/${listId}`);
+    },
+
+    /**
+     * Get a label's profile, parent label and sublabels
      */
-    async getRelease(releaseId: number): Promise<unknown> {
-      return makeRequest(`/releases/${releaseId}`);
+    async getLabel(labelId: number): Promise<DiscogsLabel> {
+      return makeRequest(`/labels/${labelId}`);
     },
 
     /**
-     * Search the database with optional filters
+     * Get a label's releases (paginated)
+     */
+    async getLabelReleases(
+      labelId: number,
+      page: number = 1,
+      perPage: number = 100
+    ): Promise<{
+      pagination: DiscogsPagination;
+      releases: DiscogsLabelRelease[];
+    }> {
+      return makeRequest(
+        `/labels/${labelId}/releases?page=${page}&per_page=${perPage}`
+      );
+    },
+
+    /**
+     * Walk a label's releases page by page
+     */
+    iterateLabelReleases(labelId: number, options?: PaginateOptions) {
+      return paginate(async (page) => {
+        const response = await this.getLabelReleases(labelId, page, MAX_PER_PAGE);
+        return toPageResult(response.pagination, response.releases);
+      }, options);
+    },
+
+    /**
+     * Search the database with optional filters (validated)
      */
     async search(
       query: string,
       type?: string,
-      options?: {
-        format?: string;
-        sort?: "year" | "title" | "have" | "want";
-        sort_order?: "asc" | "desc";
-      }
-    ): Promise<unknown> {
-      const params = new URLSearchParams({ q: query });
-      if (type) params.append("type", type);
-      if (options?.format) params.append("format", options.format);
-      if (options?.sort) params.append("sort", options.sort);
-      if (options?.sort_order) params.append("sort_order", options.sort_order);
-      return makeRequest(`/database/search?${params.toString()}`);
+      options?: DiscogsSearchOptions
+    ): Promise<DiscogsSearchResponse> {
+      return parseSearchResponse(
+        await makeRequest(`/database/search?${buildSearchQuery(query, type, options)}`)
+      );
     },
 
     /**
-     * Add a release to the user's wantlist
+     * Add a release to the user's wantlist, optionally with notes and a rating
      */
     async addToWantlist(
       username: string,
-      releaseId: number
+      releaseId: number,
+      details: DiscogsWantDetails = {}
     ): Promise<{ id: number; rating: number; notes: string }> {
-      return makeRequest(`/users/${username}/wants/${releaseId}`, "PUT");
+      requireUser("wantlist changes");
+      return makeRequest(`/users/${username}/wants/${releaseId}`, "PUT", details);
+    },
+
+    /**
+     * Edit the notes or rating of a release already in the wantlist
+     */
+    async editWant(
+      username: string,
+      releaseId: number,
+      details: DiscogsWantDetails
+    ): Promise<{ id: number; rating: number; notes: string }> {
+      requireUser("wantlist changes");
+      return makeRequest(`/users/${username}/wants/${releaseId}`, "POST", details);
     },
 
     /**
@@ -371,93 +802,78 @@ export function createDiscogsClient(
       username: string,
       releaseId: number
     ): Promise<void> {
+      requireUser("wantlist changes");
       return makeRequest(`/users/${username}/wants/${releaseId}`, "DELETE");
     },
-  };
-}
-
-/**
- * Create a simple Discogs client using key/secret (no user auth)
- */
-export function createSimpleDiscogsClient(
-  consumerKey: string,
-  consumerSecret: string
-) {
-  async function makeRequest<T>(
-    endpoint: string,
-    method: string = "GET"
-  ): Promise<T> {
-    const url = `${DISCOGS_API_BASE}${endpoint}`;
-
-    const response = await fetch(url, {
-      method,
-      headers: {
-        Authorization: `Discogs key=${consumerKey}, secret=${consumerSecret}`,
-        "User-Agent": "DeepCogs/1.0",
-        Accept: "application/json",
-      },
-    });
 
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`Discogs API error: ${response.status} - ${text}`);
-    }
-
-    return response.json();
-  }
-
-  return {
     /**
-     * Get a user's public collection (no auth needed for public collections)
+     * Add a release to one of the user's collection folders
      */
-    async getPublicCollection(
+    async addToCollection(
       username: string,
-      folderId: number = 0,
-      page: number = 1,
-      perPage: number = 50
-    ): Promise<DiscogsCollection> {
-      return makeRequest<DiscogsCollection>(
-        `/users/${username}/collection/folders/${folderId}/releases?page=${page}&per_page=${perPage}&sort=added&sort_order=desc`
+      releaseId: number,
+      folderId: number = UNCATEGORIZED_FOLDER_ID
+    ): Promise<{ instance_id: number; resource_url: string }> {
+      requireUser("collection changes");
+      return makeRequest(
+        `/users/${username}/collection/folders/${folderId}/releases/${releaseId}`,
+        "POST"
       );
     },
 
     /**
-     * Get all releases from a user's public collection
+     * Change a collection instance's rating (0-5) or move it to another folder
      */
-    async getAllPublicCollection(username: string): Promise<DiscogsRelease[]> {
-      const allReleases: DiscogsRelease[] = [];
-      let page = 1;
-      let hasMore = true;
-
-      while (hasMore) {
-        const response = await this.getPublicCollection(username, 0, page, 100);
-        allReleases.push(...response.releases);
-
-        if (page >= response.pagination.pages) {
-          hasMore = false;
-        } else {
-          page++;
-          await new Promise((resolve) => setTimeout(resolve, 100));
-        }
-      }
-
-      return allReleases;
+    async editInstance(
+      username: string,
+      folderId: number,
+      releaseId: number,
+      instanceId: number,
+      changes: { rating?: number; folder_id?: number }
+    ): Promise<void> {
+      requireUser("collection changes");
+      return makeRequest(
+        `/users/${username}/collection/folders/${folderId}/releases/${releaseId}/instances/${instanceId}`,
+        "POST",
+        changes
+      );
     },
 
     /**
-     * Get a user's profile
+     * Set a custom field (condition, notes) on a collection instance
      */
-    async getUser(username: string): Promise<DiscogsUser> {
-      return makeRequest<DiscogsUser>(`/users/${username}`);
+    async setInstanceField(
+      username: string,
+      folderId: number,
+      releaseId: number,
+      instanceId: number,
+      fieldId: number,
+      value: string
+    ): Promise<void> {
+      requireUser("collection changes");
+      return makeRequest(
+        `/users/${username}/collection/folders/${folderId}/releases/${releaseId}/instances/${instanceId}/fields/${fieldId}`,
+        "POST",
+        { value }
+      );
     },
 
     /**
-     * Search the database
+     * Remove an instance from the user's collection
      */
-    async search(query: string, type?: string): Promise<unknown> {
-      const params = new URLSearchParams({ q: query });
-      if (type) params.append("type", type);
-      return makeRequest(`/database/search?${params.toString()}`);
+    async removeFromCollection(
+      username: string,
+      folderId: number,
+      releaseId: number,
+      instanceId: number
+    ): Promise<void> {
+      requireUser("collection changes");
+      return makeRequest(
+        `/users/${username}/collection/folders/${folderId}/releases/${releaseId}/instances/${instanceId}`,
+        "DELETE"
+      );
     },
   };
 }
+
+export type DiscogsClient = ReturnType<typeof createDiscogsClient>;
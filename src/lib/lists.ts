@@ -0,0 +1,83 @@
+/**
+ * List Comparison
+ *
+ * Matches the entries of a Discogs user list against the user's collection
+ * and wantlist. Safe to use on both server and client.
+ */
+
+import type { DiscogsListItem, DiscogsRelease } from "./discogs";
+
+// "other" covers artist and label entries, which can't be owned or wanted
+export type ListItemStatus = "owned" | "wanted" | "missing" | "other";
+
+export interface ListWanted {
+  releases: number[];
+  masters: number[];
+}
+
+export interface ListEntry {
+  item: DiscogsListItem;
+  status: ListItemStatus;
+}
+
+export interface ListComparison {
+  entries: ListEntry[];
+  counts: Record<ListItemStatus, number>;
+}
+
+/**
+ * Parse a list ID from a bare number or a Discogs list URL like
+ * https://www.discogs.com/lists/Best-Of-1994/123456
+ */
+export function parseListId(input: string): number | null {
+  const match = input.trim().match(/(\d+)\/?$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Mark each list entry as owned, wanted or missing
+ */
+export function compareList(
+  items: DiscogsListItem[],
+  collection: DiscogsRelease[],
+  wanted: ListWanted | null
+): ListComparison {
+  const ownedReleases = new Set(collection.map((r) => r.basic_information.id));
+  const ownedMasters = new Set(
+    collection.map((r) => r.basic_information.master_id).filter(Boolean)
+  );
+  const wantedReleases = new Set(wanted?.releases || []);
+  const wantedMasters = new Set(wanted?.masters || []);
+
+  const counts: Record<ListItemStatus, number> = {
+    owned: 0,
+    wanted: 0,
+    missing: 0,
+    other: 0,
+  };
+
+  const entries = items.map((item) => {
+    let status: ListItemStatus;
+
+    if (item.type === "release") {
+      status = ownedReleases.has(item.id)
+        ? "owned"
+        : wantedReleases.has(item.id)
+        ? "wanted"
+        : "missing";
+    } else if (item.type === "master") {
+      status = ownedMasters.has(item.id)
+        ? "owned"
+        : wantedMasters.has(item.id)
+        ? "wanted"
+        : "missing";
+    } else {
+      status = "other";
+    }
+
+    counts[status]++;
+    return { item, status };
+  });
+
+  return { entries, counts };
+}
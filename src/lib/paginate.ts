@@ -0,0 +1,85 @@
+/**
+ * Paginator
+ *
+ * Walks a paginated endpoint as an async iterator. The first page is
+ * fetched alone to learn the page count, then up to `concurrency` pages
+ * are fetched in parallel and yielded in order. Works with Discogs
+ * responses on the server and with our own API routes in the browser.
+ */
+
+export interface PageResult<T> {
+  items: T[];
+  pages: number; // total page count
+  total: number; // total item count
+}
+
+export interface PaginationProgress {
+  page: number; // last page yielded
+  pages: number;
+  loaded: number; // items yielded so far
+  total: number;
+}
+
+export interface PaginateOptions {
+  concurrency?: number; // pages in flight once the page count is known
+  maxPages?: number; // stop after this many pages
+  onProgress?: (progress: PaginationProgress) => void;
+}
+
+export interface Page<T> extends PageResult<T> {
+  page: number;
+}
+
+/**
+ * Yield pages in order. Breaking out of the loop stops further fetches.
+ */
+export async function* paginate<T>(
+  fetchPage: (page: number) => Promise<PageResult<T>>,
+  { concurrency = 2, maxPages = Infinity, onProgress }: PaginateOptions = {}
+): AsyncGenerator<Page<T>> {
+  const first = await fetchPage(1);
+  const lastPage = Math.min(first.pages, maxPages);
+  let loaded = first.items.length;
+
+  onProgress?.({ page: 1, pages: lastPage, loaded, total: first.total });
+  yield { ...first, page: 1 };
+
+  // Pages already requested but not yet yielded, by page number
+  const pending = new Map<number, Promise<PageResult<T>>>();
+  let nextToRequest = 2;
+
+  const fill = (from: number) => {
+    while (nextToRequest <= lastPage && nextToRequest < from + concurrency) {
+      const request = fetchPage(nextToRequest);
+      // Avoid unhandled rejections for pages the caller never gets to
+      request.catch(() => {});
+      pending.set(nextToRequest, request);
+      nextToRequest++;
+    }
+  };
+
+  try {
+    for (let page = 2; page <= lastPage; page++) {
+      fill(page);
+      const result = await pending.get(page)!;
+      pending.delete(page);
+
+      loaded += result.items.length;
+      onProgress?.({ page, pages: lastPage, loaded, total: first.total });
+      yield { ...result, page };
+    }
+  } finally {
+    pending.clear();
+  }
+}
+
+/**
+ * Collect every item from a page iterator
+ */
+export async function collectItems<T>(pages: AsyncIterable<Page<T>>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const page of pages) {
+    items.push(...page.items);
+  }
+  return items;
+}
@@ -0,0 +1,100 @@
+/**
+ * Pressing Classification
+ *
+ * Classifies owned releases as original, early pressing or later reissue
+ * by comparing them with the earliest known version of their master.
+ * Safe to use on both server and client.
+ */
+
+import type { DiscogsMasterVersion, DiscogsRelease } from "./discogs";
+
+export type PressingClass = "original" | "early" | "reissue" | "unknown";
+
+export interface PressingVersion {
+  id: number;
+  year: number | null;
+  country: string | null;
+}
+
+export interface MasterPressingSummary {
+  masterId: number;
+  earliest: PressingVersion | null;
+  owned: PressingVersion[]; // the versions asked about, i.e. the ones owned
+}
+
+export interface PressingClassification {
+  classification: PressingClass;
+  year: number | null;
+  country: string | null;
+  earliest: PressingVersion | null;
+}
+
+// Pressings within this many years of the first one count as "early"
+export const EARLY_PRESSING_WINDOW = 2;
+
+function parseYear(released?: string): number | null {
+  const year = parseInt(released?.slice(0, 4) || "", 10);
+  return year > 1900 ? year : null;
+}
+
+/**
+ * Reduce a master version to what classification needs
+ */
+export function toPressingVersion(version: DiscogsMasterVersion): PressingVersion {
+  return {
+    id: version.id,
+    year: parseYear(version.released),
+    country: version.country || null,
+  };
+}
+
+/**
+ * The earliest dated pressing among a master's versions
+ */
+export function findEarliest(versions: PressingVersion[]): PressingVersion | null {
+  return versions
+    .filter((v) => v.year !== null)
+    .sort((a, b) => a.year! - b.year! || a.id - b.id)[0] || null;
+}
+
+/**
+ * Classify an owned release against its master's pressing summary.
+ * Releases without a master are the only version of themselves, so they
+ * count as originals.
+ */
+export function classifyPressing(
+  release: DiscogsRelease,
+  summary?: MasterPressingSummary
+): PressingClassification {
+  const info = release.basic_information;
+  const ownYear = info.year > 1900 ? info.year : null;
+
+  if (!info.master_id) {
+    return {
+      classification: ownYear ? "original" : "unknown",
+      year: ownYear,
+      country: null,
+      earliest: null,
+    };
+  }
+
+  const version = summary?.owned.find((v) => v.id === info.id);
+  const year = version?.year ?? ownYear;
+  const country = version?.country ?? null;
+  const earliest = summary?.earliest ?? null;
+
+  if (!earliest || year === null) {
+    return { classification: "unknown", year, country, earliest };
+  }
+
+  let classification: PressingClass;
+  if (year <= earliest.year! && (!country || !earliest.country || country === earliest.country)) {
+    classification = "original";
+  } else if (year - earliest.year! <= EARLY_PRESSING_WINDOW) {
+    classification = "early";
+  } else {
+    classification = "reissue";
+  }
+
+  return { classification, year, country, earliest };
+}
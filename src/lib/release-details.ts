@@ -0,0 +1,195 @@
+/**
+ * Release Details
+ *
+ * The release payload served by /api/release/[id] for the release drawer:
+ * a validated Discogs release reshaped into what the UI shows, with
+ * nulls instead of missing fields and artist credits flattened to
+ * display names. Safe to use on both server and client.
+ */
+
+import type {
+  DiscogsArtistCredit,
+  DiscogsReleaseDetail,
+  DiscogsTrack,
+} from "./discogs";
+
+export interface ReleaseCredit {
+  artistId: number;
+  name: string;
+  role: string;
+  tracks: string | null; // e.g. "A1, B2", null when it covers the whole release
+}
+
+export interface ReleaseTrack {
+  position: string;
+  type: "track" | "heading" | "index";
+  title: string;
+  duration: string | null;
+  artists: string | null; // only when it differs from the release artist
+  credits: ReleaseCredit[];
+  subTracks: ReleaseTrack[];
+}
+
+export interface ReleaseLabel {
+  id: number;
+  name: string;
+  catno: string | null;
+}
+
+export interface ReleaseFormat {
+  name: string; // e.g. "Vinyl"
+  quantity: number;
+  descriptions: string[]; // e.g. ["LP", "Album"]
+  text: string | null; // free text, e.g. "Gatefold"
+}
+
+export interface ReleaseIdentifier {
+  type: string; // e.g. "Barcode", "Matrix / Runout"
+  value: string;
+  description: string | null; // e.g. "Side A"
+}
+
+export interface ReleaseImage {
+  uri: string;
+  thumb: string | null;
+  width: number | null;
+  height: number | null;
+  primary: boolean;
+}
+
+export interface ReleaseVideo {
+  uri: string;
+  title: string;
+  duration: number | null; // seconds
+}
+
+export interface ReleaseDetails {
+  id: number;
+  title: string;
+  artists: string;
+  masterId: number | null;
+  year: number | null;
+  released: string | null; // as formatted by Discogs, e.g. "12 Mar 1979"
+  country: string | null;
+  notes: string | null;
+  genres: string[];
+  styles: string[];
+  labels: ReleaseLabel[];
+  formats: ReleaseFormat[];
+  tracklist: ReleaseTrack[];
+  credits: ReleaseCredit[];
+  identifiers: ReleaseIdentifier[];
+  images: ReleaseImage[];
+  videos: ReleaseVideo[];
+  community: {
+    have: number;
+    want: number;
+    rating: { average: number; count: number } | null;
+  };
+  marketplace: {
+    lowestPrice: number | null; // in the requesting user's currency
+    numForSale: number;
+  };
+  uri: string; // release page on discogs.com
+}
+
+// Discogs tells same-named artists apart with a suffix, e.g. "Nirvana (2)"
+const displayName = (name: string) => name.replace(/\s\(\d+\)$/, "");
+
+/**
+ * Display name for a list of artist credits, e.g. "Foo & Bar feat. Baz".
+ * Uses the name as printed on the release and drops Discogs' "(2)"
+ * disambiguation suffixes.
+ */
+export function formatArtists(credits: DiscogsArtistCredit[]): string {
+  return credits
+    .map((credit, i) => {
+      const name = displayName(credit.anv || credit.name);
+      if (i === credits.length - 1) return name;
+      return name + (!credit.join || credit.join === "," ? ", " : ` ${credit.join} `);
+    })
+    .join("")
+    .trim();
+}
+
+function toCredits(credits: DiscogsArtistCredit[] = []): ReleaseCredit[] {
+  return credits.map((credit) => ({
+    artistId: credit.id,
+    name: displayName(credit.anv || credit.name),
+    role: credit.role || "",
+    tracks: credit.tracks || null,
+  }));
+}
+
+function toTrack(track: DiscogsTrack): ReleaseTrack {
+  const type = track.type_ === "heading" || track.type_ === "index" ? track.type_ : "track";
+  return {
+    position: track.position,
+    type,
+    title: track.title,
+    duration: track.duration || null,
+    artists: track.artists?.length ? formatArtists(track.artists) : null,
+    credits: toCredits(track.extraartists),
+    subTracks: (track.sub_tracks || []).map(toTrack),
+  };
+}
+
+/**
+ * Reshape a release from the Discogs API for the UI
+ */
+export function toReleaseDetails(release: DiscogsReleaseDetail): ReleaseDetails {
+  return {
+    id: release.id,
+    title: release.title,
+    artists: formatArtists(release.artists),
+    masterId: release.master_id || null,
+    year: release.year || null,
+    released: release.released_formatted || release.released || null,
+    country: release.country || null,
+    notes: release.notes || null,
+    genres: release.genres || [],
+    styles: release.styles || [],
+    labels: release.labels.map((label) => ({
+      id: label.id,
+      name: displayName(label.name),
+      catno: label.catno && label.catno !== "none" ? label.catno : null,
+    })),
+    formats: (release.formats || []).map((format) => ({
+      name: format.name,
+      quantity: parseInt(format.qty, 10) || 1,
+      descriptions: format.descriptions || [],
+      text: format.text || null,
+    })),
+    tracklist: (release.tracklist || []).map(toTrack),
+    credits: toCredits(release.extraartists),
+    identifiers: (release.identifiers || []).map((identifier) => ({
+      type: identifier.type,
+      value: identifier.value,
+      description: identifier.description || null,
+    })),
+    images: (release.images || []).map((image) => ({
+      uri: image.uri,
+      thumb: image.uri150 || null,
+      width: image.width ?? null,
+      height: image.height ?? null,
+      primary: image.type === "primary",
+    })),
+    videos: (release.videos || []).map((video) => ({
+      uri: video.uri,
+      title: video.title,
+      duration: video.duration ?? null,
+    })),
+    community: {
+      have: release.community?.have ?? 0,
+      want: release.community?.want ?? 0,
+      rating: release.community?.rating?.count
+        ? { average: release.community.rating.average, count: release.community.rating.count }
+        : null,
+    },
+    marketplace: {
+      lowestPrice: release.lowest_price ?? null,
+      numForSale: release.num_for_sale ?? 0,
+    },
+    uri: release.uri || `https://www.discogs.com/release/${release.id}`,
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Session Sealing
+ *
+ * Encrypts session payloads with AES-256-GCM, whose auth tag also makes
+ * them tamper-proof. Keys are derived from SESSION_SECRET; retired
+ * secrets listed in SESSION_SECRET_PREVIOUS (comma-separated) can still
+ * open existing sessions, so secrets can be rotated without signing
+ * everyone out. Server-only.
+ *
+ * Sealed format: keyId.iv.ciphertext+tag, each part base64url.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, hkdfSync, randomBytes } from "node:crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const MIN_SECRET_LENGTH = 32;
+
+interface SessionKey {
+  id: string;
+  key: Buffer;
+}
+
+function deriveKey(secret: string): SessionKey {
+  const key = Buffer.from(hkdfSync("sha256", secret, "", "deepcogs-session", 32));
+  // Short fingerprint so unsealing can pick the right key without trying each
+  const id = createHash("sha256").update(key).digest("base64url").slice(0, 8);
+  return { id, key };
+}
+
+/**
+ * Current key first, then retired ones
+ */
+function getKeys(): SessionKey[] {
+  const current = process.env.SESSION_SECRET;
+  if (!current || current.length < MIN_SECRET_LENGTH) {
+    throw new Error(`SESSION_SECRET must be set to at least ${MIN_SECRET_LENGTH} characters`);
+  }
+
+  const previous = (process.env.SESSION_SECRET_PREVIOUS || "")
+    .split(",")
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+
+  return [current, ...previous].map(deriveKey);
+}
+
+/**
+ * Encrypt a JSON-serializable value with the current key
+ */
+export function seal(value: unknown): string {
+  const [{ id, key }] = getKeys();
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv, { authTagLength: TAG_LENGTH });
+  // Bind the key ID so it can't be swapped onto another ciphertext
+  cipher.setAAD(Buffer.from(id));
+
+  const encrypted = Buffer.concat([
+    cipher.update(JSON.stringify(value), "utf8"),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  return [id, iv.toString("base64url"), encrypted.toString("base64url")].join(".");
+}
+
+/**
+ * Decrypt a sealed value. Returns null if it is malformed, was tampered
+ * with or was sealed with a key that is no longer configured.
+ */
+export function unseal<T>(sealed: string): T | null {
+  const [id, ivPart, dataPart] = sealed.split(".");
+  if (!id || !ivPart || !dataPart) return null;
+
+  const match = getKeys().find((k) => k.id === id);
+  if (!match) return null;
+
+  try {
+    const iv = Buffer.from(ivPart, "base64url");
+    const data = Buffer.from(dataPart, "base64url");
+    if (iv.length !== IV_LENGTH || data.length <= TAG_LENGTH) return null;
+
+    const decipher = createDecipheriv(ALGORITHM, match.key, iv, { authTagLength: TAG_LENGTH });
+    decipher.setAAD(Buffer.from(id));
+    decipher.setAuthTag(data.subarray(data.length - TAG_LENGTH));
+
+    const decrypted = Buffer.concat([
+      decipher.update(data.subarray(0, data.length - TAG_LENGTH)),
+      decipher.final(),
+    ]);
+
+    return JSON.parse(decrypted.toString("utf8")) as T;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,290 @@
+/**
+ * User Session
+ *
+ * The signed-in user's Discogs credentials and profile, kept in a single
+ * encrypted cookie (see ./session-seal). A session can hold several linked
+ * Discogs accounts, one of them active. Accounts sign in either through
+ * OAuth (access token + secret, signed with the app's consumer key/secret)
+ * or with a personal access token, and routes get a ready-to-use
+ * DiscogsAuth for either. Server-only.
+ */
+
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { cookies } from "next/headers";
+import { CSRF_COOKIE, CSRF_HEADER } from "./csrf";
+import { resolveDiscogsAuth, type DiscogsAuth, type DiscogsUser } from "./discogs";
+import { seal, unseal } from "./session-seal";
+
+export const SESSION_COOKIE = "deepcogs_session";
+const SESSION_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
+const PENDING_OAUTH_COOKIE = "deepcogs_oauth_pending";
+const PENDING_OAUTH_MAX_AGE = 60 * 10; // 10 minutes
+
+// Bump when the payload shape changes; older sessions are signed out
+const SESSION_VERSION = 3;
+
+// Linked accounts per session, keeps the sealed cookie well under 4KB
+const MAX_ACCOUNTS = 5;
+
+// Plain cookies from before sessions were encrypted, removed on sign-in/out
+const LEGACY_COOKIES = [
+  "discogs_access_token",
+  "discogs_access_token_secret",
+  "discogs_personal_token",
+  "discogs_username",
+  "discogs_avatar",
+  "discogs_collection_count",
+  "discogs_oauth_token_secret",
+];
+
+export type SessionCredentials =
+  | { type: "oauth"; accessToken: string; accessTokenSecret: string }
+  | { type: "token"; token: string };
+
+interface LinkedAccount {
+  username: string;
+  avatarUrl?: string;
+  collectionCount?: number;
+  credentials: SessionCredentials;
+}
+
+interface SessionPayload {
+  version: number;
+  issuedAt: number; // epoch ms
+  csrfToken: string;
+  active: string; // username of the account in use
+  accounts: LinkedAccount[];
+}
+
+// Request token issued when an OAuth sign-in starts
+interface PendingOAuth {
+  token: string;
+  tokenSecret: string;
+  issuedAt: number; // epoch ms
+}
+
+export interface AccountSummary {
+  username: string;
+  avatarUrl?: string;
+}
+
+export interface Session {
+  username: string;
+  avatarUrl?: string;
+  collectionCount?: number;
+  csrfToken: string;
+  auth: Extract<DiscogsAuth, { type: "oauth" | "token" }>;
+  accounts: AccountSummary[]; // every linked account, the active one included
+}
+
+function toAuth(credentials: SessionCredentials): Session["auth"] | null {
+  if (credentials.type === "token") {
+    return { type: "token", token: credentials.token };
+  }
+
+  // OAuth sessions also need the app's consumer key/secret to sign requests
+  const consumerKey = process.env.DISCOGS_CONSUMER_KEY;
+  const consumerSecret = process.env.DISCOGS_CONSUMER_SECRET;
+  if (!consumerKey || !consumerSecret) return null;
+
+  return {
+    type: "oauth",
+    consumerKey,
+    consumerSecret,
+    accessToken: credentials.accessToken,
+    accessTokenSecret: credentials.accessTokenSecret,
+  };
+}
+
+function unsealPayload(sealed: string | undefined): SessionPayload | null {
+  if (!sealed) return null;
+
+  const payload = unseal<SessionPayload>(sealed);
+  if (
+    !payload ||
+    payload.version !== SESSION_VERSION ||
+    Date.now() - payload.issuedAt > SESSION_MAX_AGE * 1000
+  ) {
+    return null;
+  }
+
+  return payload;
+}
+
+async function readPayload(): Promise<SessionPayload | null> {
+  const cookieStore = await cookies();
+  return unsealPayload(cookieStore.get(SESSION_COOKIE)?.value);
+}
+
+async function writePayload(payload: SessionPayload) {
+  const options = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    maxAge: SESSION_MAX_AGE,
+    path: "/",
+  };
+
+  const cookieStore = await cookies();
+  LEGACY_COOKIES.forEach((name) => cookieStore.delete(name));
+  cookieStore.set(SESSION_COOKIE, seal(payload), options);
+  // Readable so client code can send it back in a header
+  cookieStore.set(CSRF_COOKIE, payload.csrfToken, { ...options, httpOnly: false });
+}
+
+/**
+ * The active account of the signed-in user, or null
+ */
+export async function getSession(): Promise<Session | null> {
+  const cookieStore = await cookies();
+  return readSession(cookieStore.get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * Session from a session cookie value, for code that reads cookies off
+ * the request itself (the proxy)
+ */
+export function readSession(sealed: string | undefined): Session | null {
+  const payload = unsealPayload(sealed);
+  const account = payload?.accounts.find((a) => a.username === payload.active);
+  if (!payload || !account) return null;
+
+  const auth = toAuth(account.credentials);
+  if (!auth) return null;
+
+  return {
+    username: account.username,
+    avatarUrl: account.avatarUrl,
+    collectionCount: account.collectionCount,
+    csrfToken: payload.csrfToken,
+    auth,
+    accounts: payload.accounts.map(({ username, avatarUrl }) => ({ username, avatarUrl })),
+  };
+}
+
+/**
+ * Auth for requests that also work without a user: the signed-in user's
+ * credentials when present, otherwise the app's key/secret or anonymous
+ */
+export async function getRequestAuth(): Promise<DiscogsAuth> {
+  const session = await getSession();
+  if (session) return session.auth;
+
+  return resolveDiscogsAuth({
+    consumerKey: process.env.DISCOGS_CONSUMER_KEY,
+    consumerSecret: process.env.DISCOGS_CONSUMER_SECRET,
+  });
+}
+
+/**
+ * Check the CSRF token a mutating request carries, from the header or,
+ * for plain form posts, the given form field value
+ */
+export function verifyCsrf(request: Request, session: Session, formValue?: string): boolean {
+  const sent = request.headers.get(CSRF_HEADER) || formValue || "";
+  const expected = Buffer.from(session.csrfToken);
+  const actual = Buffer.from(sent);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Check that a request was sent from one of our own pages (Origin, or
+ * Referer when there's no Origin). For sign-in form posts, which come
+ * before there's a session and so a CSRF token to check.
+ */
+export function isSameOrigin(request: Request): boolean {
+  const source = request.headers.get("Origin") || request.headers.get("Referer");
+  if (!source) return false;
+
+  const allowed = [new URL(request.url).origin];
+  if (process.env.NEXT_PUBLIC_APP_URL) {
+    allowed.push(new URL(process.env.NEXT_PUBLIC_APP_URL).origin);
+  }
+
+  try {
+    return allowed.includes(new URL(source).origin);
+  } catch {
+    // e.g. "Origin: null" from a sandboxed frame
+    return false;
+  }
+}
+
+/**
+ * Link a freshly signed-in account to the session and make it active.
+ * Accounts already linked stay signed in.
+ */
+export async function saveSession(credentials: SessionCredentials, profile: DiscogsUser) {
+  const existing = await readPayload();
+  const account: LinkedAccount = {
+    username: profile.username,
+    avatarUrl: profile.avatar_url || profile.avatar,
+    collectionCount: profile.num_collection,
+    credentials,
+  };
+
+  // Signing in again replaces that account's credentials; past the limit
+  // the longest-linked account is dropped
+  const others = (existing?.accounts || []).filter((a) => a.username !== account.username);
+
+  await writePayload({
+    version: SESSION_VERSION,
+    issuedAt: Date.now(),
+    // Keep the token so forms open in other tabs still work
+    csrfToken: existing?.csrfToken || randomBytes(32).toString("base64url"),
+    active: account.username,
+    accounts: [...others, account].slice(-MAX_ACCOUNTS),
+  });
+}
+
+/**
+ * Make another linked account the active one. Returns false if it isn't
+ * linked to this session.
+ */
+export async function switchAccount(username: string): Promise<boolean> {
+  const payload = await readPayload();
+  if (!payload?.accounts.some((a) => a.username === username)) return false;
+
+  await writePayload({ ...payload, active: username });
+  return true;
+}
+
+/**
+ * Sign the user out
+ */
+export async function clearSession() {
+  const cookieStore = await cookies();
+  [SESSION_COOKIE, CSRF_COOKIE, ...LEGACY_COOKIES].forEach((name) => cookieStore.delete(name));
+}
+
+/**
+ * Remember the request token of an OAuth sign-in in progress
+ */
+export async function savePendingOAuth(token: string, tokenSecret: string) {
+  const pending: PendingOAuth = { token, tokenSecret, issuedAt: Date.now() };
+  const cookieStore = await cookies();
+  cookieStore.set(PENDING_OAUTH_COOKIE, seal(pending), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: PENDING_OAUTH_MAX_AGE,
+    path: "/",
+  });
+}
+
+/**
+ * Take the pending OAuth request token. It can only be taken once, so a
+ * callback URL can't be replayed.
+ */
+export async function takePendingOAuth(): Promise<Omit<PendingOAuth, "issuedAt"> | null> {
+  const cookieStore = await cookies();
+  const sealed = cookieStore.get(PENDING_OAUTH_COOKIE)?.value;
+  cookieStore.delete(PENDING_OAUTH_COOKIE);
+  if (!sealed) return null;
+
+  const pending = unseal<PendingOAuth>(sealed);
+  if (!pending || Date.now() - pending.issuedAt > PENDING_OAUTH_MAX_AGE * 1000) {
+    return null;
+  }
+
+  return { token: pending.token, tokenSecret: pending.tokenSecret };
+}
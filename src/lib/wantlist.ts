@@ -0,0 +1,48 @@
+/**
+ * Wantlist Loading
+ *
+ * Reads a user's whole wantlist from /api/wantlist/[username] one page
+ * at a time, with progress and cancellation. Safe to use on both server
+ * and client (the loader itself runs in the browser).
+ */
+
+import { toApiRequestError } from "./api-errors";
+import type { DiscogsRelease } from "./discogs";
+import { collectItems, paginate, type PaginationProgress } from "./paginate";
+
+export interface WantlistItem {
+  id: number;
+  rating: number;
+  notes: string | null; // only for your own wantlist
+  basic_information: DiscogsRelease["basic_information"];
+}
+
+export interface FetchWantlistOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: PaginationProgress) => void;
+}
+
+/**
+ * Every want of a user. Throws an ApiRequestError if a page fails.
+ */
+export async function fetchWantlist(
+  username: string,
+  { signal, onProgress }: FetchWantlistOptions = {}
+): Promise<WantlistItem[]> {
+  const pages = paginate<WantlistItem>(
+    async (page) => {
+      const response = await fetch(
+        `/api/wantlist/${encodeURIComponent(username)}?page=${page}`,
+        { signal }
+      );
+      if (!response.ok) {
+        throw await toApiRequestError(response);
+      }
+      const data = await response.json();
+      return { items: data.wants, pages: data.pages, total: data.total };
+    },
+    { onProgress }
+  );
+
+  return collectItems(pages);
+}
@@ -0,0 +1,42 @@
+/**
+ * Proxy
+ *
+ * Turns away requests without a session before they reach pages and API
+ * routes that need one: pages redirect to the login page, API routes get
+ * a 401 with the "unauthenticated" code. This is an early, optimistic
+ * check; routes still resolve and verify the session themselves.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/api-route";
+import { readSession, SESSION_COOKIE } from "@/lib/session";
+
+export function proxy(request: NextRequest) {
+  if (readSession(request.cookies.get(SESSION_COOKIE)?.value)) {
+    return NextResponse.next();
+  }
+
+  if (request.nextUrl.pathname.startsWith("/api/")) {
+    return apiError(401, "unauthenticated", "Not authenticated");
+  }
+
+  return NextResponse.redirect(new URL("/login", request.url));
+}
+
+export const config = {
+  // Routes that need a signed-in user. Public data routes (collection,
+  // folders, lists, master versions) also serve guests and aren't listed.
+  matcher: [
+    "/dashboard/:path*",
+    "/api/auth/accounts",
+    "/api/collection/releases",
+    "/api/collection/instances/:path*",
+    "/api/collection/value",
+    "/api/recommendations",
+    "/api/artists/:path*",
+    "/api/labels/:path*",
+    "/api/masters/:id",
+    "/api/release/:path*",
+    "/api/wantlist/:path*",
+  ],
+};